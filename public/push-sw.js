@@ -0,0 +1,30 @@
+// Service worker for UnivBot reminder push notifications
+
+self.addEventListener("push", (event) => {
+  let notification = { title: "UnivBot reminder", url: "/" }
+  try {
+    notification = { ...notification, ...event.data.json() }
+  } catch {
+    // Keep the defaults for an empty or non-JSON payload
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(notification.title, {
+      body: notification.body,
+      icon: "/favicon/web-app-manifest-192x192.png",
+      data: { url: notification.url },
+    }),
+  )
+})
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close()
+  const url = event.notification.data?.url || "/"
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => new URL(client.url).origin === self.location.origin)
+      return open ? open.focus() : self.clients.openWindow(url)
+    }),
+  )
+})
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import dbConnect from '@/lib/mongodb'
+import { requireRole } from '@/lib/api-auth'
+import { AllowedEmail } from '@/lib/models/AllowedEmail'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Existing accounts keep working; only future sign-ins are affected
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json(
+        { success: false, message: 'Allowed email not found' },
+        { status: 404 }
+      )
+    }
+
+    await dbConnect()
+
+    const entry = await AllowedEmail.findByIdAndDelete(id)
+    if (!entry) {
+      return NextResponse.json(
+        { success: false, message: 'Allowed email not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Allowed email removed'
+    })
+  } catch (error) {
+    console.error('Error removing allowed email:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to remove allowed email' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { requireRole } from '@/lib/api-auth'
+import { AllowedEmail, type IAllowedEmail } from '@/lib/models/AllowedEmail'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function serializeAllowedEmail(entry: IAllowedEmail) {
+  return {
+    id: String(entry._id),
+    email: entry.email,
+    note: entry.note,
+    createdAt: entry.createdAt
+  }
+}
+
+// Sign-in exceptions for addresses outside the allowed university domains
+export async function GET() {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    await dbConnect()
+
+    const entries = await AllowedEmail.find({}).sort({ email: 1 }).lean<IAllowedEmail[]>()
+
+    return NextResponse.json({
+      success: true,
+      data: entries.map(serializeAllowedEmail),
+      count: entries.length
+    })
+  } catch (error) {
+    console.error('Error fetching allowed emails:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch allowed emails' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const { email, note } = await request.json()
+
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return NextResponse.json(
+        { success: false, message: 'A valid email address is required' },
+        { status: 400 }
+      )
+    }
+
+    if (note !== undefined && typeof note !== 'string') {
+      return NextResponse.json(
+        { success: false, message: 'Note must be a string' },
+        { status: 400 }
+      )
+    }
+
+    await dbConnect()
+
+    const normalized = email.trim().toLowerCase()
+    if (await AllowedEmail.exists({ email: normalized })) {
+      return NextResponse.json(
+        { success: false, message: 'This email is already allowed' },
+        { status: 409 }
+      )
+    }
+
+    const entry = await AllowedEmail.create({
+      email: normalized,
+      note: note?.trim() || undefined,
+      addedBy: auth.userId
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Email allowed to sign in',
+      data: serializeAllowedEmail(entry)
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error adding allowed email:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to add allowed email' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { requireSession } from '@/lib/api-auth'
+import { cancelBooking, serializeBooking } from '@/lib/labs'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+
+    await dbConnect()
+
+    const booking = await cancelBooking(id, auth.userId)
+    if (!booking) {
+      return NextResponse.json(
+        { success: false, message: 'Upcoming booking not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Booking cancelled successfully',
+      data: serializeBooking(booking)
+    })
+  } catch (error) {
+    console.error('Error cancelling booking:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to cancel booking' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import dbConnect from '@/lib/mongodb'
+import { requireSession } from '@/lib/api-auth'
+import { Booking, type IBooking } from '@/lib/models/Booking'
+import { Lab, type ILab } from '@/lib/models/Lab'
+import { serializeBooking } from '@/lib/labs'
+
+// The user's bookings, upcoming only unless ?past=true
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    const includePast = request.nextUrl.searchParams.get('past') === 'true'
+
+    await dbConnect()
+
+    const filter: mongoose.FilterQuery<IBooking> = { userId, status: 'confirmed' }
+    if (!includePast) filter.end = { $gt: new Date() }
+
+    const bookings = await Booking.find(filter).sort({ start: 1 }).limit(100).lean<IBooking[]>()
+    const labs = await Lab.find({ _id: { $in: bookings.map((booking) => booking.labId) } })
+      .select('name code location')
+      .lean<ILab[]>()
+    const labsById = new Map(labs.map((lab) => [String(lab._id), lab]))
+
+    return NextResponse.json({
+      success: true,
+      data: bookings.map((booking) => serializeBooking(booking, labsById.get(String(booking.labId))))
+    })
+  } catch (error) {
+    console.error('Error fetching bookings:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch bookings' },
+      { status: 500 }
+    )
+  }
+}
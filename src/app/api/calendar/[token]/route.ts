@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { buildUserCalendar, findUserByCalendarToken } from '@/lib/calendar'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: Promise<{ token: string }> }
+
+/**
+ * The user's subscription feed at /api/calendar/<token>.ics.
+ * Calendar apps fetch it without a session, so the secret token is the only credential.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { token } = await params
+
+    await dbConnect()
+
+    const user = await findUserByCalendarToken(token.replace(/\.ics$/, ''))
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Calendar not found' },
+        { status: 404 }
+      )
+    }
+
+    return new Response(await buildUserCalendar(user._id), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="univbot.ics"',
+        'Cache-Control': 'private, max-age=300'
+      }
+    })
+  } catch (error) {
+    console.error('Error building calendar feed:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to build calendar' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { requireSession } from '@/lib/api-auth'
+import { calendarFeedUrl, getCalendarFeedToken } from '@/lib/calendar'
+
+// The signed-in user's subscription URL, created on first request
+export async function GET() {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    await dbConnect()
+
+    const token = await getCalendarFeedToken(auth.userId)
+
+    return NextResponse.json({
+      success: true,
+      data: { url: calendarFeedUrl(token) }
+    })
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch calendar feed' },
+      { status: 500 }
+    )
+  }
+}
+
+// Replace the URL; calendars subscribed to the old one stop updating
+export async function POST() {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    await dbConnect()
+
+    const token = await getCalendarFeedToken(auth.userId, { rotate: true })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Calendar feed URL reset',
+      data: { url: calendarFeedUrl(token) }
+    })
+  } catch (error) {
+    console.error('Error resetting calendar feed:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to reset calendar feed' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,39 +1,125 @@
-// Chat API temporarily disabled - focus on authentication flow
-// Uncomment when ready to implement chat functionality
-
-/*
-import { openai } from "@ai-sdk/openai"
-import { convertToModelMessages, streamText, type UIMessage } from "ai"
+import {
+  consumeStream,
+  convertToModelMessages,
+  createIdGenerator,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  stepCountIs,
+  streamText,
+} from "ai"
 import { NextResponse } from "next/server"
 import dbConnect from "@/lib/mongodb"
+import { requireSession } from "@/lib/api-auth"
+import { appendChatMessages, messageText } from "@/lib/chat-history"
+import { getLanguageModel, isProviderConfigured, resolveProvider } from "@/lib/llm"
+import { buildSystemPrompt } from "@/lib/llm/prompts"
+import { generateAnswerDetails } from "@/lib/llm/answers"
+import { getGeminiApiKey } from "@/lib/user-api-keys"
+import { getStudentProfile } from "@/lib/user-profile"
+import { createToolSet } from "@/lib/tools"
+import { retrieveCitations, type Citation, type UnivBotUIMessage } from "@/lib/rag"
+
+export const maxDuration = 60
 
-export const maxDuration = 30
+const generateMessageId = createIdGenerator({ prefix: "msg", size: 16 })
+
+// Tool calls plus the final answer; stops runaway call loops
+const MAX_STEPS = 5
 
 export async function POST(req: Request) {
   try {
-    // Connect to MongoDB
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    const {
+      id: sessionId,
+      messages,
+      provider: preferredProvider,
+    }: { id?: string; messages: UnivBotUIMessage[]; provider?: string } = await req.json()
+
+    if (!sessionId || !Array.isArray(messages) || messages.length === 0) {
+      return NextResponse.json(
+        { error: 'Session id and messages are required' },
+        { status: 400 }
+      )
+    }
+
     await dbConnect()
-    
-    const { messages }: { messages: UIMessage[] } = await req.json()
-
-    const result = streamText({
-      model: openai("gpt-4o"),
-      system: `You are UnivBot, a helpful AI assistant for university students. You help with:
-      - Academic queries and doubts
-      - Exam schedules and information  
-      - Lab booking assistance
-      - Faculty contact information
-      - Campus resources and facilities
-      - Study tips and academic guidance
-      
-      Be friendly, concise, and helpful. Use emojis occasionally to make responses more engaging. 
-      Always try to provide practical solutions and direct students to appropriate resources when needed.
-      You can use basic HTML formatting like <strong>, <em>, and <a> tags for rich text responses.
-      Keep responses conversational and student-friendly.`,
-      messages: convertToModelMessages(messages),
+
+    // A personal Gemini key from Settings takes precedence over the server key
+    const provider = resolveProvider(preferredProvider)
+    const userApiKey = provider === "gemini" ? await getGeminiApiKey(userId) : null
+    if (!userApiKey && !isProviderConfigured(provider)) {
+      return NextResponse.json(
+        { error: `The ${provider} provider is not configured on this server` },
+        { status: 503 }
+      )
+    }
+
+    // Record the user's turn before generating
+    await appendChatMessages(userId, sessionId, messages.slice(-1))
+
+    // Ground the answer in the user's uploaded documents; chat still works if retrieval fails
+    const question = messageText(messages[messages.length - 1])
+    let sources: Awaited<ReturnType<typeof retrieveCitations>> = []
+    try {
+      sources = await retrieveCitations(userId.toString(), question)
+    } catch (error) {
+      console.error('Document retrieval failed:', error)
+    }
+    const citations: Citation[] = sources.map(({ text, ...citation }) => citation)
+
+    const model = getLanguageModel(provider, { apiKey: userApiKey ?? undefined })
+    const system = buildSystemPrompt({ excerpts: sources, profile: await getStudentProfile(userId) })
+
+    // Known up front so tool invocations can point back at the answer that made them
+    const responseMessageId = generateMessageId()
+
+    const stream = createUIMessageStream<UnivBotUIMessage>({
+      originalMessages: messages,
+      generateId: () => responseMessageId,
+      execute: async ({ writer }) => {
+        const result = streamText({
+          model,
+          system,
+          messages: convertToModelMessages(messages),
+          tools: createToolSet({ userId, sessionId, messageId: responseMessageId }),
+          stopWhen: stepCountIs(MAX_STEPS),
+        })
+
+        writer.merge(
+          result.toUIMessageStream({
+            // The finish event is sent below, once the answer details are ready
+            sendFinish: false,
+            // Citation metadata travels with the assistant message so the client can render footnotes
+            messageMetadata: ({ part }) =>
+              part.type === "start" && citations.length > 0 ? { citations } : undefined,
+          }),
+        )
+
+        const details = await generateAnswerDetails({
+          model,
+          question,
+          answer: await result.text,
+          excerpts: sources,
+        })
+        writer.write({ type: "finish", messageMetadata: details ? { details } : undefined })
+      },
+      onFinish: async ({ responseMessage }) => {
+        try {
+          await appendChatMessages(userId, sessionId, [responseMessage])
+        } catch (error) {
+          console.error('Failed to save assistant message:', error)
+        }
+      },
     })
 
-    return result.toUIMessageStreamResponse()
+    return createUIMessageStreamResponse({
+      stream,
+      // Keep generating (and persisting) even if the client disconnects mid-stream
+      consumeSseStream: consumeStream,
+    })
   } catch (error) {
     console.error('Chat API error:', error)
     return NextResponse.json(
@@ -42,4 +128,3 @@ export async function POST(req: Request) {
     )
   }
 }
-*/
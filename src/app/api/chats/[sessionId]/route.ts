@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server"
+import dbConnect from "@/lib/mongodb"
+import { Chat } from "@/lib/models/Chat"
+import { requireSession } from "@/lib/api-auth"
+import { toUIMessages } from "@/lib/chat-history"
+
+type RouteContext = { params: Promise<{ sessionId: string }> }
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    const { sessionId } = await params
+
+    await dbConnect()
+
+    const chat = await Chat.findOne({ sessionId, userId })
+    if (!chat) {
+      return NextResponse.json(
+        { success: false, message: "Chat not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        sessionId: chat.sessionId,
+        title: chat.title,
+        isActive: chat.isActive,
+        messages: toUIMessages(chat),
+        updatedAt: chat.updatedAt
+      }
+    })
+  } catch (error) {
+    console.error("Error fetching chat:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to fetch chat" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    const { sessionId } = await params
+    const { title, isActive } = await request.json()
+
+    const update: { title?: string; isActive?: boolean } = {}
+    if (title !== undefined) {
+      if (typeof title !== "string" || !title.trim()) {
+        return NextResponse.json(
+          { success: false, message: "Title must be a non-empty string" },
+          { status: 400 }
+        )
+      }
+      update.title = title.trim().slice(0, 120)
+    }
+    if (isActive !== undefined) {
+      if (typeof isActive !== "boolean") {
+        return NextResponse.json(
+          { success: false, message: "isActive must be a boolean" },
+          { status: 400 }
+        )
+      }
+      update.isActive = isActive
+    }
+
+    await dbConnect()
+
+    // timestamps: false keeps renames and archiving from reordering the history list
+    const chat = await Chat.findOneAndUpdate(
+      { sessionId, userId },
+      { $set: update },
+      { new: true, timestamps: false }
+    )
+    if (!chat) {
+      return NextResponse.json(
+        { success: false, message: "Chat not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Chat updated successfully",
+      data: {
+        sessionId: chat.sessionId,
+        title: chat.title,
+        isActive: chat.isActive
+      }
+    })
+  } catch (error) {
+    console.error("Error updating chat:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to update chat" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    const { sessionId } = await params
+
+    await dbConnect()
+
+    const result = await Chat.deleteOne({ sessionId, userId })
+    if (result.deletedCount === 0) {
+      return NextResponse.json(
+        { success: false, message: "Chat not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Chat deleted successfully"
+    })
+  } catch (error) {
+    console.error("Error deleting chat:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to delete chat" },
+      { status: 500 }
+    )
+  }
+}
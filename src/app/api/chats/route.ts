@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import dbConnect from "@/lib/mongodb"
+import { Chat } from "@/lib/models/Chat"
+import { requireSession } from "@/lib/api-auth"
+
+const MAX_CHATS = 200
+
+export async function GET() {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    await dbConnect()
+
+    const chats = await Chat.find({ userId })
+      .select("sessionId title isActive createdAt updatedAt")
+      .sort({ updatedAt: -1 })
+      .limit(MAX_CHATS)
+      .lean()
+
+    return NextResponse.json({
+      success: true,
+      data: chats.map((chat) => ({
+        sessionId: chat.sessionId,
+        title: chat.title || "New conversation",
+        isActive: chat.isActive,
+        createdAt: chat.createdAt,
+        updatedAt: chat.updatedAt
+      })),
+      count: chats.length
+    })
+  } catch (error) {
+    console.error("Error fetching chats:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to fetch chats" },
+      { status: 500 }
+    )
+  }
+}
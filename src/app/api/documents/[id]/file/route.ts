@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server"
+import mongoose from "mongoose"
+import { Readable } from "stream"
+import dbConnect from "@/lib/mongodb"
+import { requireSession } from "@/lib/api-auth"
+import { Document, type IDocument } from "@/lib/models/Document"
+import { openFileStream } from "@/lib/storage"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    const { id } = await params
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json(
+        { success: false, message: "Document not found" },
+        { status: 404 }
+      )
+    }
+
+    await dbConnect()
+
+    // Scoping by owner means other users' documents look exactly like missing ones
+    const document: IDocument | null = await Document.findOne({ _id: id, userId })
+    if (!document) {
+      return NextResponse.json(
+        { success: false, message: "Document not found" },
+        { status: 404 }
+      )
+    }
+
+    const stream = await openFileStream(document.fileId)
+
+    return new Response(Readable.toWeb(stream) as ReadableStream, {
+      headers: {
+        "Content-Type": document.mimeType,
+        "Content-Length": String(document.size),
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(document.fileName)}`,
+        "Cache-Control": "private, no-store"
+      }
+    })
+  } catch (error) {
+    console.error("Error downloading document:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to download document" },
+      { status: 500 }
+    )
+  }
+}
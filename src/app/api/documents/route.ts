@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server"
+import dbConnect from "@/lib/mongodb"
+import { requireSession } from "@/lib/api-auth"
+import { MAX_UPLOAD_BYTES, detectDocumentKind, uploadDocument } from "@/lib/documents"
+import type { IDocument } from "@/lib/models/Document"
+
+// PDF parsing can take a while for large handbooks
+export const maxDuration = 60
+
+function serializeDocument(document: IDocument) {
+  return {
+    id: document._id,
+    fileName: document.fileName,
+    mimeType: document.mimeType,
+    size: document.size,
+    status: document.status,
+    error: document.error,
+    pageCount: document.pageCount,
+    chunkCount: document.chunkCount,
+    createdAt: document.createdAt
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    const formData = await request.formData()
+    const files = formData.getAll("files").filter((entry): entry is File => entry instanceof File)
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { success: false, message: "At least one file is required" },
+        { status: 400 }
+      )
+    }
+
+    // Validate every file before storing any of them
+    for (const file of files) {
+      if (!detectDocumentKind(file.type, file.name)) {
+        return NextResponse.json(
+          { success: false, message: `Unsupported file type: ${file.name}. Upload PDF, DOCX, Markdown or plain text.` },
+          { status: 415 }
+        )
+      }
+      if (file.size > MAX_UPLOAD_BYTES) {
+        return NextResponse.json(
+          { success: false, message: `${file.name} is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB` },
+          { status: 413 }
+        )
+      }
+    }
+
+    await dbConnect()
+
+    const documents: IDocument[] = []
+    for (const file of files) {
+      documents.push(await uploadDocument(userId, file, detectDocumentKind(file.type, file.name)!))
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Documents uploaded successfully",
+      data: documents.map(serializeDocument)
+    }, { status: 201 })
+  } catch (error) {
+    console.error("Error uploading documents:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to upload documents" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server"
+import mongoose from "mongoose"
+import dbConnect from "@/lib/mongodb"
+import { requireSession } from "@/lib/api-auth"
+import { buildActivityCalendar } from "@/lib/calendar"
+import { ActivityEvent, type IActivityEvent } from "@/lib/models/ActivityEvent"
+
+// One Past Events entry as a downloadable .ics file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    const { id } = await params
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json(
+        { success: false, message: "Event not found" },
+        { status: 404 }
+      )
+    }
+
+    await dbConnect()
+
+    const event = await ActivityEvent.findOne({ _id: id, userId }).lean<IActivityEvent>()
+    if (!event) {
+      return NextResponse.json(
+        { success: false, message: "Event not found" },
+        { status: 404 }
+      )
+    }
+
+    return new Response(await buildActivityCalendar(event), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="univbot-event-${id}.ics"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error exporting event to calendar:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to export event" },
+      { status: 500 }
+    )
+  }
+}
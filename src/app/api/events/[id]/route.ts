@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import mongoose from "mongoose"
+import dbConnect from "@/lib/mongodb"
+import { requireSession } from "@/lib/api-auth"
+import { toUIMessages } from "@/lib/chat-history"
+import { serializeActivityEvent } from "@/lib/activity"
+import { ActivityEvent, type IActivityEvent } from "@/lib/models/ActivityEvent"
+import { Chat } from "@/lib/models/Chat"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    const { id } = await params
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json(
+        { success: false, message: "Event not found" },
+        { status: 404 }
+      )
+    }
+
+    await dbConnect()
+
+    const event: IActivityEvent | null = await ActivityEvent.findOne({ _id: id, userId })
+    if (!event) {
+      return NextResponse.json(
+        { success: false, message: "Event not found" },
+        { status: 404 }
+      )
+    }
+
+    // Tool events point back at the assistant message that made the call
+    let sourceMessage = null
+    if (event.sessionId && event.messageId) {
+      const chat = await Chat.findOne({ sessionId: event.sessionId, userId })
+      sourceMessage = chat
+        ? toUIMessages(chat).find((message) => message.id === event.messageId) ?? null
+        : null
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...serializeActivityEvent(event),
+        sourceMessage
+      }
+    })
+  } catch (error) {
+    console.error("Error fetching event:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to fetch event" },
+      { status: 500 }
+    )
+  }
+}
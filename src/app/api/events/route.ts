@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server"
+import dbConnect from "@/lib/mongodb"
+import { requireSession } from "@/lib/api-auth"
+import { serializeActivityEvent } from "@/lib/activity"
+import { ActivityEvent, type IActivityEvent } from "@/lib/models/ActivityEvent"
+import { escapeRegExp } from "@/lib/utils"
+
+const DEFAULT_LIMIT = 10
+const MAX_LIMIT = 50
+
+const EVENT_TYPES = ["Document", "Tool"]
+const EVENT_STATUSES = ["pending", "processing", "completed", "failed"]
+
+// Parse a positive integer query parameter, falling back when missing or invalid
+function positiveInt(value: string | null, fallback: number) {
+  const parsed = Number.parseInt(value ?? "", 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+function parseDate(value: string | null) {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    const { searchParams } = request.nextUrl
+    const page = positiveInt(searchParams.get("page"), 1)
+    const limit = Math.min(positiveInt(searchParams.get("limit"), DEFAULT_LIMIT), MAX_LIMIT)
+
+    await dbConnect()
+
+    const type = searchParams.get("type")
+    const status = searchParams.get("status")
+    const from = parseDate(searchParams.get("from"))
+    const to = parseDate(searchParams.get("to"))
+    const query = searchParams.get("q")?.trim()
+
+    if ((type && !EVENT_TYPES.includes(type)) || (status && !EVENT_STATUSES.includes(status))) {
+      return NextResponse.json(
+        { success: false, message: "Invalid type or status filter" },
+        { status: 400 }
+      )
+    }
+
+    const filter: Record<string, unknown> = { userId }
+    if (type) filter.type = type
+    if (status) filter.status = status
+    if (from || to) {
+      filter.createdAt = {
+        ...(from && { $gte: from }),
+        ...(to && { $lte: to })
+      }
+    }
+    if (query) {
+      const pattern = new RegExp(escapeRegExp(query), "i")
+      filter.$or = [
+        { title: pattern },
+        { description: pattern },
+        { toolName: pattern },
+        { "payload.fileName": pattern }
+      ]
+    }
+    const [events, total]: [IActivityEvent[], number] = await Promise.all([
+      ActivityEvent.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      ActivityEvent.countDocuments(filter)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: events.map(serializeActivityEvent),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / limit))
+      }
+    })
+  } catch (error) {
+    console.error("Error fetching events:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to fetch events" },
+      { status: 500 }
+    )
+  }
+}
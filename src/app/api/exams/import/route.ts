@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { requireRole } from '@/lib/api-auth'
+import { ImportValidationError, readImportUpload } from '@/lib/import-upload'
+import { importExamsCsv, importExamsIcs } from '@/lib/exams'
+
+// Admins upload the exam timetable as CSV or an iCalendar export, as a "file" form field or a text body
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const upload = await readImportUpload(request, ['csv', 'ics'])
+    if (!upload.ok) return upload.response
+
+    await dbConnect()
+
+    let result
+    try {
+      result = upload.format === 'ics' ? await importExamsIcs(upload.text) : await importExamsCsv(upload.text)
+    } catch (error) {
+      // Database failures fall through to the generic 500 rather than echoing driver messages
+      if (!(error instanceof ImportValidationError)) throw error
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Imported ${result.created + result.updated} exams (${result.created} new, ${result.updated} updated, ${result.errors.length} skipped)`,
+      data: result
+    })
+  } catch (error) {
+    console.error('Error importing exams:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to import exams' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { requireSession } from '@/lib/api-auth'
+import { getStudentExams, serializeExam } from '@/lib/exams'
+
+// The signed-in student's timetable for their enrolled courses, with overlapping exams flagged
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    await dbConnect()
+
+    const { exams, conflicts, unscheduledCourses } = await getStudentExams(auth.userId, {
+      includePast: request.nextUrl.searchParams.get('past') === 'true'
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        exams: exams.map(serializeExam),
+        conflicts: conflicts.map(({ first, second }) => ({
+          examIds: [String(first._id), String(second._id)],
+          courseCodes: [first.courseCode, second.courseCode]
+        })),
+        unscheduledCourses
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching exam timetable:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch exam timetable' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { requireSession } from '@/lib/api-auth'
+import { findExams, serializeExam } from '@/lib/exams'
+
+// Upcoming exams for ?course= (repeatable, or comma-separated); add ?past=true to include finished ones
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    const { searchParams } = request.nextUrl
+    const courses = searchParams
+      .getAll('course')
+      .flatMap((value) => value.split(','))
+      .map((course) => course.trim())
+      .filter(Boolean)
+
+    if (courses.length === 0) {
+      return NextResponse.json(
+        { success: false, message: 'At least one course is required' },
+        { status: 400 }
+      )
+    }
+
+    await dbConnect()
+
+    const exams = await findExams(courses.slice(0, 50), { includePast: searchParams.get('past') === 'true' })
+
+    return NextResponse.json({
+      success: true,
+      data: exams.map(serializeExam)
+    })
+  } catch (error) {
+    console.error('Error fetching exams:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch exams' },
+      { status: 500 }
+    )
+  }
+}
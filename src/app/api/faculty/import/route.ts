@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { requireRole } from '@/lib/api-auth'
+import { ImportValidationError, readImportUpload } from '@/lib/import-upload'
+import { importFacultyCsv } from '@/lib/faculty'
+
+// Admins upload the directory as CSV, either as a "file" form field or a text/csv body
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const upload = await readImportUpload(request, ['csv'])
+    if (!upload.ok) return upload.response
+
+    await dbConnect()
+
+    let result
+    try {
+      result = await importFacultyCsv(upload.text)
+    } catch (error) {
+      // Database failures fall through to the generic 500 rather than echoing driver messages
+      if (!(error instanceof ImportValidationError)) throw error
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Imported ${result.created + result.updated} faculty (${result.created} new, ${result.updated} updated, ${result.errors.length} skipped)`,
+      data: result
+    })
+  } catch (error) {
+    console.error('Error importing faculty:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to import faculty' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { requireSession } from '@/lib/api-auth'
+import { searchFaculty, serializeFaculty } from '@/lib/faculty'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+// Search the directory by ?q= (name, email, department, office or course), ?course= and ?department=
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    const { searchParams } = request.nextUrl
+    const parsedLimit = Number.parseInt(searchParams.get('limit') ?? '', 10)
+    const limit = parsedLimit > 0 ? Math.min(parsedLimit, MAX_LIMIT) : DEFAULT_LIMIT
+
+    await dbConnect()
+
+    const faculty = await searchFaculty({
+      query: searchParams.get('q') ?? undefined,
+      course: searchParams.get('course') ?? undefined,
+      department: searchParams.get('department') ?? undefined,
+      limit
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: faculty.map(serializeFaculty)
+    })
+  } catch (error) {
+    console.error('Error searching faculty:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to search faculty' },
+      { status: 500 }
+    )
+  }
+}
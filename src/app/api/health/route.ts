@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { pingDatabase } from '@/lib/mongodb'
+import { LLM_PROVIDERS, isProviderConfigured, resolveProvider } from '@/lib/llm'
+import packageJson from '../../../../package.json'
+
+// Always run the checks; a cached response would defeat the probe
+export const dynamic = 'force-dynamic'
+
+const startedAt = new Date()
+
+/**
+ * Readiness probe: 200 when the database answers, 503 otherwise.
+ * The LLM section is informational, since users can bring their own Gemini key.
+ */
+export async function GET() {
+  let database: { status: 'ok' | 'error'; latencyMs?: number; error?: string }
+  try {
+    database = { status: 'ok', latencyMs: await pingDatabase() }
+  } catch (error) {
+    console.error('Health check database ping failed:', error)
+    database = { status: 'error', error: 'Database unreachable' }
+  }
+
+  const defaultProvider = resolveProvider()
+  const llm = {
+    defaultProvider,
+    defaultProviderConfigured: isProviderConfigured(defaultProvider),
+    providers: LLM_PROVIDERS.map((provider) => ({
+      id: provider.id,
+      configured: isProviderConfigured(provider.id)
+    }))
+  }
+
+  const ready = database.status === 'ok'
+  const status = !ready ? 'error' : llm.defaultProviderConfigured ? 'ok' : 'degraded'
+
+  return NextResponse.json(
+    {
+      status,
+      checks: { database, llm },
+      build: {
+        name: packageJson.name,
+        version: packageJson.version,
+        commit: process.env.VERCEL_GIT_COMMIT_SHA || process.env.GIT_COMMIT_SHA || null,
+        node: process.version,
+        environment: process.env.NODE_ENV,
+        startedAt: startedAt.toISOString(),
+        uptimeSeconds: Math.round(process.uptime())
+      },
+      timestamp: new Date().toISOString()
+    },
+    {
+      status: ready ? 200 : 503,
+      headers: { 'Cache-Control': 'no-store' }
+    }
+  )
+}
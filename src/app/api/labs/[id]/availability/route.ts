@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import dbConnect from '@/lib/mongodb'
+import { requireSession } from '@/lib/api-auth'
+import { Lab, type ILab } from '@/lib/models/Lab'
+import { getLabAvailability, serializeLab } from '@/lib/labs'
+import { isDateString, localDateString } from '@/lib/campus-time'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Slots for one local day (?date=YYYY-MM-DD, default today in the lab's time zone)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json(
+        { success: false, message: 'Lab not found' },
+        { status: 404 }
+      )
+    }
+
+    const date = request.nextUrl.searchParams.get('date')
+    if (date && !isDateString(date)) {
+      return NextResponse.json(
+        { success: false, message: 'Date must be YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    await dbConnect()
+
+    const lab = await Lab.findOne({ _id: id, isActive: true }).lean<ILab>()
+    if (!lab) {
+      return NextResponse.json(
+        { success: false, message: 'Lab not found' },
+        { status: 404 }
+      )
+    }
+
+    const day = date ?? localDateString(new Date(), lab.timeZone)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        lab: serializeLab(lab),
+        date: day,
+        slots: await getLabAvailability(lab, day)
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching lab availability:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch lab availability' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import dbConnect from '@/lib/mongodb'
+import { requireSession } from '@/lib/api-auth'
+import { Lab, type ILab } from '@/lib/models/Lab'
+import {
+  BookingError,
+  MAX_BOOKING_SLOTS,
+  bookLab,
+  findAlternativeSlots,
+  serializeBooking
+} from '@/lib/labs'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Book { start: ISO timestamp, slots?: number, purpose?: string }
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    const { id } = await params
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json(
+        { success: false, message: 'Lab not found' },
+        { status: 404 }
+      )
+    }
+
+    const { start, slots = 1, purpose } = await request.json()
+    const startDate = typeof start === 'string' ? new Date(start) : null
+    if (!startDate || Number.isNaN(startDate.getTime())) {
+      return NextResponse.json(
+        { success: false, message: 'Start must be an ISO date-time' },
+        { status: 400 }
+      )
+    }
+    if (!Number.isInteger(slots) || slots < 1 || slots > MAX_BOOKING_SLOTS) {
+      return NextResponse.json(
+        { success: false, message: `Slots must be between 1 and ${MAX_BOOKING_SLOTS}` },
+        { status: 400 }
+      )
+    }
+    if (purpose !== undefined && typeof purpose !== 'string') {
+      return NextResponse.json(
+        { success: false, message: 'Purpose must be a string' },
+        { status: 400 }
+      )
+    }
+
+    await dbConnect()
+
+    const lab = await Lab.findOne({ _id: id, isActive: true }).lean<ILab>()
+    if (!lab) {
+      return NextResponse.json(
+        { success: false, message: 'Lab not found' },
+        { status: 404 }
+      )
+    }
+
+    try {
+      const booking = await bookLab({
+        lab,
+        userId,
+        start: startDate,
+        slotCount: slots,
+        purpose: purpose?.trim() || undefined
+      })
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: 'Lab booked successfully',
+          data: serializeBooking(booking, lab)
+        },
+        { status: 201 }
+      )
+    } catch (error) {
+      if (!(error instanceof BookingError)) throw error
+
+      // Taken slots come back with nearby free ones so the client can offer them
+      const taken = error.code === 'full' || error.code === 'conflict'
+      return NextResponse.json(
+        {
+          success: false,
+          message: error.message,
+          code: error.code,
+          alternatives: taken ? await findAlternativeSlots(lab, startDate, slots) : undefined
+        },
+        { status: taken ? 409 : 400 }
+      )
+    }
+  } catch (error) {
+    console.error('Error booking lab:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to book lab' },
+      { status: 500 }
+    )
+  }
+}
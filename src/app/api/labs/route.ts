@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { requireRole, requireSession } from '@/lib/api-auth'
+import { Lab, type ILab } from '@/lib/models/Lab'
+import { labInputSchema, serializeLab } from '@/lib/labs'
+
+export async function GET() {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    await dbConnect()
+
+    const labs = await Lab.find({ isActive: true }).sort({ name: 1 }).lean<ILab[]>()
+
+    return NextResponse.json({
+      success: true,
+      data: labs.map(serializeLab)
+    })
+  } catch (error) {
+    console.error('Error fetching labs:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch labs' },
+      { status: 500 }
+    )
+  }
+}
+
+// Staff and admins manage the bookable labs
+export async function POST(request: Request) {
+  try {
+    const auth = await requireRole('admin', 'staff')
+    if (!auth.ok) return auth.response
+
+    const parsed = labInputSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: parsed.error.issues[0]?.message ?? 'Invalid lab',
+          errors: parsed.error.flatten().fieldErrors
+        },
+        { status: 400 }
+      )
+    }
+
+    await dbConnect()
+
+    const code = parsed.data.code.toUpperCase()
+    if (await Lab.exists({ code })) {
+      return NextResponse.json(
+        { success: false, message: `A lab with code ${code} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const lab = await Lab.create({ ...parsed.data, code })
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Lab created successfully',
+        data: serializeLab(lab)
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error creating lab:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to create lab' },
+      { status: 500 }
+    )
+  }
+}
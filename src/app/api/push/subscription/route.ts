@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { requireSession } from '@/lib/api-auth'
+import { WebPushSubscription } from '@/lib/models/WebPushSubscription'
+import { isPushServiceEndpoint, vapidPublicKey } from '@/lib/notifications'
+
+// The VAPID key browsers subscribe with; null when web push isn't configured
+export async function GET() {
+  const auth = await requireSession()
+  if (!auth.ok) return auth.response
+
+  return NextResponse.json({
+    success: true,
+    data: { publicKey: vapidPublicKey() }
+  })
+}
+
+// Register this browser's PushSubscription (as returned by subscription.toJSON())
+export async function POST(request: Request) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    const body = await request.json().catch(() => null)
+    const { endpoint, keys } = body ?? {}
+    if (
+      typeof endpoint !== 'string' ||
+      typeof keys?.p256dh !== 'string' ||
+      typeof keys?.auth !== 'string'
+    ) {
+      return NextResponse.json(
+        { success: false, message: 'A push subscription with an endpoint and keys is required' },
+        { status: 400 }
+      )
+    }
+    if (!isPushServiceEndpoint(endpoint)) {
+      return NextResponse.json(
+        { success: false, message: 'The endpoint is not a recognised browser push service' },
+        { status: 400 }
+      )
+    }
+
+    await dbConnect()
+
+    // Endpoints are per browser: after switching accounts, only the user now signed in on it gets pushes
+    await WebPushSubscription.deleteMany({ endpoint, userId: { $ne: auth.userId } })
+    await WebPushSubscription.updateOne(
+      { endpoint, userId: auth.userId },
+      {
+        $set: {
+          keys: { p256dh: keys.p256dh, auth: keys.auth },
+          userAgent: request.headers.get('user-agent') ?? undefined
+        }
+      },
+      { upsert: true }
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: 'Push notifications enabled'
+    })
+  } catch (error) {
+    console.error('Error saving push subscription:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to enable push notifications' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    const body = await request.json().catch(() => null)
+    const endpoint = body?.endpoint
+    if (typeof endpoint !== 'string') {
+      return NextResponse.json(
+        { success: false, message: 'Endpoint is required' },
+        { status: 400 }
+      )
+    }
+
+    await dbConnect()
+
+    await WebPushSubscription.deleteOne({ endpoint, userId: auth.userId })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Push notifications disabled'
+    })
+  } catch (error) {
+    console.error('Error removing push subscription:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to disable push notifications' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { requireSession } from '@/lib/api-auth'
+import { cancelReminder, serializeReminder } from '@/lib/reminders'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+
+    await dbConnect()
+
+    const reminder = await cancelReminder(id, auth.userId)
+    if (!reminder) {
+      return NextResponse.json(
+        { success: false, message: 'Scheduled reminder not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Reminder cancelled successfully',
+      data: serializeReminder(reminder)
+    })
+  } catch (error) {
+    console.error('Error cancelling reminder:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to cancel reminder' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { timingSafeEqual } from 'crypto'
+import { NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { dispatchDueReminders } from '@/lib/reminders'
+
+export const dynamic = 'force-dynamic'
+
+// Constant-time comparison, so response timing doesn't reveal how much of the secret matched
+function hasCronSecret(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const given = Buffer.from(request.headers.get('authorization') ?? '')
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+/**
+ * Send due reminders; for deployments without the in-process scheduler (e.g. Vercel Cron).
+ * Authenticated with `Authorization: Bearer $CRON_SECRET` rather than a session.
+ */
+async function dispatch(request: Request) {
+  if (!hasCronSecret(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    await dbConnect()
+
+    const dispatched = await dispatchDueReminders()
+
+    return NextResponse.json({
+      success: true,
+      data: { dispatched }
+    })
+  } catch (error) {
+    console.error('Error dispatching reminders:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to dispatch reminders' },
+      { status: 500 }
+    )
+  }
+}
+
+export { dispatch as GET, dispatch as POST }
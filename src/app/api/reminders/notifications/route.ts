@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { requireSession } from '@/lib/api-auth'
+import { markRemindersSeen, serializeReminder, unseenInAppReminders } from '@/lib/reminders'
+
+// Polled by the open app: sent reminders still waiting to be shown as a toast
+export async function GET() {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    await dbConnect()
+
+    const reminders = await unseenInAppReminders(auth.userId)
+
+    return NextResponse.json({
+      success: true,
+      data: reminders.map(serializeReminder)
+    })
+  } catch (error) {
+    console.error('Error fetching reminder notifications:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch notifications' },
+      { status: 500 }
+    )
+  }
+}
+
+// Acknowledge { ids } once their toasts are shown, so other tabs don't show them again
+export async function POST(request: Request) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    const { ids } = await request.json()
+    if (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string')) {
+      return NextResponse.json(
+        { success: false, message: 'ids must be an array of reminder ids' },
+        { status: 400 }
+      )
+    }
+
+    await dbConnect()
+
+    const seen = await markRemindersSeen(auth.userId, ids)
+
+    return NextResponse.json({
+      success: true,
+      data: { seen }
+    })
+  } catch (error) {
+    console.error('Error acknowledging reminder notifications:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to acknowledge notifications' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server'
+import dbConnect from '@/lib/mongodb'
+import { requireSession } from '@/lib/api-auth'
+import { reminderInputSchema } from '@/lib/reminder-schema'
+import { ReminderLimitError, createReminder, listReminders, serializeReminder } from '@/lib/reminders'
+import { configuredChannels } from '@/lib/notifications'
+
+export async function GET() {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    await dbConnect()
+
+    const { upcoming, past } = await listReminders(auth.userId)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        upcoming: upcoming.map(serializeReminder),
+        past: past.map(serializeReminder),
+        // Lets the UI explain why a channel will be skipped
+        availableChannels: configuredChannels()
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching reminders:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch reminders' },
+      { status: 500 }
+    )
+  }
+}
+
+// Schedule { title, remindAt: ISO date-time, notes?, channels? }
+export async function POST(request: Request) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+
+    const body = await request.json().catch(() => null)
+    if (body === null) {
+      return NextResponse.json(
+        { success: false, message: 'Request body must be JSON' },
+        { status: 400 }
+      )
+    }
+
+    const parsed = reminderInputSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: parsed.error.issues[0]?.message ?? 'Invalid reminder',
+          errors: parsed.error.flatten().fieldErrors
+        },
+        { status: 400 }
+      )
+    }
+
+    await dbConnect()
+
+    const reminder = await createReminder(auth.userId, parsed.data)
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Reminder scheduled successfully',
+        data: serializeReminder(reminder)
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof ReminderLimitError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error creating reminder:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to create reminder' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,23 +0,0 @@
-import { NextResponse } from 'next/server'
-import dbConnect from '@/lib/mongodb'
-
-export async function GET() {
-  try {
-    await dbConnect()
-    return NextResponse.json({ 
-      success: true, 
-      message: 'MongoDB connection successful!',
-      timestamp: new Date().toISOString()
-    })
-  } catch (error) {
-    console.error('MongoDB connection error:', error)
-    return NextResponse.json(
-      { 
-        success: false, 
-        message: 'MongoDB connection failed',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    )
-  }
-} 
\ No newline at end of file
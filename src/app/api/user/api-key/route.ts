@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import dbConnect from "@/lib/mongodb"
+import { requireSession } from "@/lib/api-auth"
+import { deleteGeminiApiKey, getApiKeyStatus, saveGeminiApiKey } from "@/lib/user-api-keys"
+
+const MIN_KEY_LENGTH = 20
+
+export async function GET() {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    await dbConnect()
+
+    return NextResponse.json({
+      success: true,
+      data: await getApiKeyStatus(userId)
+    })
+  } catch (error) {
+    console.error("Error fetching API key status:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to fetch API key status" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    const { apiKey } = await request.json()
+    if (typeof apiKey !== "string" || apiKey.trim().length < MIN_KEY_LENGTH) {
+      return NextResponse.json(
+        { success: false, message: "Please enter a valid Gemini API key" },
+        { status: 400 }
+      )
+    }
+
+    await dbConnect()
+
+    return NextResponse.json({
+      success: true,
+      message: "API key saved successfully",
+      data: await saveGeminiApiKey(userId, apiKey.trim())
+    })
+  } catch (error) {
+    console.error("Error saving API key:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to save API key" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE() {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    await dbConnect()
+
+    return NextResponse.json({
+      success: true,
+      message: "API key removed",
+      data: await deleteGeminiApiKey(userId)
+    })
+  } catch (error) {
+    console.error("Error removing API key:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to remove API key" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import dbConnect from "@/lib/mongodb"
+import { requireSession } from "@/lib/api-auth"
+import { validateApiKey } from "@/lib/llm"
+import { getGeminiApiKey } from "@/lib/user-api-keys"
+
+// Test the key in the request body, or the saved key when none is given
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    const body = await request.json().catch(() => ({}))
+    let apiKey = typeof body.apiKey === "string" ? body.apiKey.trim() : ""
+
+    if (!apiKey) {
+      await dbConnect()
+      apiKey = (await getGeminiApiKey(userId)) ?? ""
+    }
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { success: false, message: "No API key to test" },
+        { status: 400 }
+      )
+    }
+
+    const { valid, message } = await validateApiKey("gemini", apiKey)
+
+    return NextResponse.json({
+      success: true,
+      data: { valid },
+      message
+    })
+  } catch (error) {
+    console.error("Error testing API key:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to test API key" },
+      { status: 500 }
+    )
+  }
+}
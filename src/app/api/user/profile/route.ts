@@ -1,17 +1,16 @@
 import { NextRequest, NextResponse } from "next/server"
-import { getServerSession } from "next-auth/next"
-import { authOptions } from "@/lib/auth"
+import dbConnect from "@/lib/mongodb"
+import { getUserRole, requireSession } from "@/lib/api-auth"
+import { profileUpdateSchema } from "@/lib/profile-schema"
+import { getStudentProfile, updateStudentProfile } from "@/lib/user-profile"
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { session, userId } = auth
 
-    if (!session || !session.user) {
-      return NextResponse.json(
-        { error: "Unauthorized" },
-        { status: 401 }
-      )
-    }
+    await dbConnect()
 
     return NextResponse.json({
       success: true,
@@ -20,7 +19,9 @@ export async function GET(request: NextRequest) {
         name: session.user.name,
         email: session.user.email,
         image: session.user.image,
+        role: await getUserRole(userId, session.user.email),
       },
+      profile: await getStudentProfile(userId),
       session: {
         expires: session.expires,
       }
@@ -32,4 +33,46 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await requireSession()
+    if (!auth.ok) return auth.response
+    const { userId } = auth
+
+    const parsed = profileUpdateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: parsed.error.issues[0]?.message ?? "Invalid profile",
+          errors: parsed.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      )
+    }
+
+    await dbConnect()
+
+    const profile = await updateStudentProfile(userId, parsed.data)
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, message: "User not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Profile updated",
+      data: profile,
+    })
+  } catch (error) {
+    console.error("Error updating profile:", error)
+    return NextResponse.json(
+      { success: false, message: "Failed to update profile" },
+      { status: 500 }
+    )
+  }
+}
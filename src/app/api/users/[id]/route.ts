@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
+import dbConnect from '@/lib/mongodb'
+import { requireRole } from '@/lib/api-auth'
+import { User, USER_ROLES, type IUser, type UserRole } from '@/lib/models/User'
+import { deleteUser, serializeUser } from '@/lib/users'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const { name, studentId, role } = await request.json()
+    const update: Partial<Pick<IUser, 'name' | 'studentId' | 'role'>> = {}
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return NextResponse.json(
+          { success: false, message: 'Name must be a non-empty string' },
+          { status: 400 }
+        )
+      }
+      update.name = name.trim()
+    }
+
+    if (studentId !== undefined) {
+      if (typeof studentId !== 'string') {
+        return NextResponse.json(
+          { success: false, message: 'Student ID must be a string' },
+          { status: 400 }
+        )
+      }
+      update.studentId = studentId.trim()
+    }
+
+    if (role !== undefined) {
+      if (!USER_ROLES.includes(role)) {
+        return NextResponse.json(
+          { success: false, message: `Role must be one of: ${USER_ROLES.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      // Admins can't demote themselves, so someone is always left to manage roles
+      if (auth.userId.equals(id) && role !== 'admin') {
+        return NextResponse.json(
+          { success: false, message: 'You cannot remove your own admin role' },
+          { status: 400 }
+        )
+      }
+      update.role = role as UserRole
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json(
+        { success: false, message: 'Nothing to update' },
+        { status: 400 }
+      )
+    }
+
+    await dbConnect()
+
+    const user = await User.findByIdAndUpdate(
+      id,
+      { $set: update },
+      { new: true, runValidators: true }
+    ).lean<IUser>()
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'User updated successfully',
+      data: serializeUser(user)
+    })
+  } catch (error) {
+    console.error('Error updating user:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update user' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const { id } = await params
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    if (auth.userId.equals(id)) {
+      return NextResponse.json(
+        { success: false, message: 'You cannot delete your own account here' },
+        { status: 400 }
+      )
+    }
+
+    await dbConnect()
+
+    const deleted = await deleteUser(new mongoose.Types.ObjectId(id))
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'User deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting user:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete user' },
+      { status: 500 }
+    )
+  }
+}
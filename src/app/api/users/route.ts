@@ -1,17 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server'
+import mongoose from 'mongoose'
 import dbConnect from '@/lib/mongodb'
-import { User } from '@/lib/models/User'
+import { requireRole } from '@/lib/api-auth'
+import { User, USER_ROLES, type IUser } from '@/lib/models/User'
+import { serializeUser } from '@/lib/users'
+import { escapeRegExp } from '@/lib/utils'
 
-export async function GET() {
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+// Newest users first; the cursor is the id of the last user on the previous page
+export async function GET(request: NextRequest) {
   try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
+    const { searchParams } = request.nextUrl
+    const parsedLimit = Number.parseInt(searchParams.get('limit') ?? '', 10)
+    const limit = parsedLimit > 0 ? Math.min(parsedLimit, MAX_LIMIT) : DEFAULT_LIMIT
+    const cursor = searchParams.get('cursor')
+    const query = searchParams.get('q')?.trim()
+
+    if (cursor && !mongoose.isValidObjectId(cursor)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid cursor' },
+        { status: 400 }
+      )
+    }
+
+    const filter: mongoose.FilterQuery<IUser> = {}
+    if (cursor) filter._id = { $lt: new mongoose.Types.ObjectId(cursor) }
+    if (query) {
+      const pattern = new RegExp(escapeRegExp(query), 'i')
+      filter.$or = [{ name: pattern }, { email: pattern }, { studentId: pattern }]
+    }
+
     await dbConnect()
-    
-    const users = await User.find({}).select('-__v').limit(10)
-    
+
+    // Fetch one extra to know whether another page exists
+    const users = await User.find(filter)
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .lean<IUser[]>()
+
+    const page = users.slice(0, limit)
+    const nextCursor = users.length > limit ? String(page[page.length - 1]._id) : null
+
     return NextResponse.json({
       success: true,
-      data: users,
-      count: users.length
+      data: page.map(serializeUser),
+      count: page.length,
+      nextCursor
     })
   } catch (error) {
     console.error('Error fetching users:', error)
@@ -24,10 +63,13 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireRole('admin')
+    if (!auth.ok) return auth.response
+
     await dbConnect()
     
     const body = await request.json()
-    const { email, name, studentId, department } = body
+    const { email, name, studentId, department, role } = body
     
     // Validate required fields
     if (!email || !name) {
@@ -36,6 +78,13 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       )
     }
+
+    if (role !== undefined && !USER_ROLES.includes(role)) {
+      return NextResponse.json(
+        { success: false, message: `Role must be one of: ${USER_ROLES.join(', ')}` },
+        { status: 400 }
+      )
+    }
     
     // Check if user already exists
     const existingUser = await User.findOne({ email })
@@ -51,7 +100,8 @@ export async function POST(request: NextRequest) {
       email,
       name,
       studentId,
-      department
+      department,
+      role
     })
     
     await user.save()
@@ -64,7 +114,8 @@ export async function POST(request: NextRequest) {
         email: user.email,
         name: user.name,
         studentId: user.studentId,
-        department: user.department
+        department: user.department,
+        role: user.role
       }
     }, { status: 201 })
     
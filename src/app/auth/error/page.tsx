@@ -0,0 +1,67 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { AlertCircle, Home, RotateCcw } from "lucide-react"
+import { describeAuthError } from "@/lib/auth-pages"
+import { allowedEmailDomains } from "@/lib/sign-in-policy"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+
+export const metadata: Metadata = {
+  title: "Sign-in Error - UnivBot",
+}
+
+interface AuthErrorPageProps {
+  searchParams: Promise<{ error?: string }>
+}
+
+export default async function AuthErrorPage({ searchParams }: AuthErrorPageProps) {
+  const { error } = await searchParams
+  const { title, description, canRetry } = describeAuthError(error)
+  const domains = error === "DomainNotAllowed" ? allowedEmailDomains() : []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <div className="p-2 bg-red-500/10 rounded-lg flex-shrink-0">
+            <AlertCircle className="h-5 w-5 text-red-500" />
+          </div>
+          {title}
+        </CardTitle>
+        <CardDescription className="break-words">{description}</CardDescription>
+      </CardHeader>
+      {error && (
+        <CardContent className="space-y-3">
+          {domains.length > 0 && (
+            <p className="text-sm break-words">
+              Accepted domains:{" "}
+              {domains.map((domain, index) => (
+                <span key={domain}>
+                  {index > 0 && ", "}
+                  <span className="font-medium">@{domain}</span>
+                </span>
+              ))}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">Error code: {error}</p>
+        </CardContent>
+      )}
+      <CardFooter className="flex justify-end gap-2">
+        <Button variant="outline" asChild>
+          <Link href="/">
+            <Home className="h-4 w-4" />
+            Home
+          </Link>
+        </Button>
+        {canRetry && (
+          <Button asChild className="bg-blue-500 hover:bg-blue-600">
+            <Link href="/auth/signin">
+              <RotateCcw className="h-4 w-4" />
+              Try again
+            </Link>
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  )
+}
@@ -0,0 +1,14 @@
+import type React from "react"
+
+export default function AuthLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return (
+    <main className="min-h-dvh flex flex-col items-center justify-center gap-6 bg-background p-4">
+      <h1 className="text-2xl font-bold flex items-center gap-2">🎓 UnivBot</h1>
+      <div className="w-full max-w-md">{children}</div>
+    </main>
+  )
+}
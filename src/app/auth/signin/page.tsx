@@ -0,0 +1,54 @@
+import type { Metadata } from "next"
+import { redirect } from "next/navigation"
+import { getServerSession } from "next-auth/next"
+import { AlertCircle, Users } from "lucide-react"
+import { authOptions } from "@/lib/auth"
+import { describeAuthError, safeCallbackUrl } from "@/lib/auth-pages"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { SignInOptions } from "@/components/sign-in-dialog"
+
+export const metadata: Metadata = {
+  title: "Sign In - UnivBot",
+}
+
+interface SignInPageProps {
+  searchParams: Promise<{ callbackUrl?: string; error?: string }>
+}
+
+export default async function SignInPage({ searchParams }: SignInPageProps) {
+  const { callbackUrl, error } = await searchParams
+  const destination = safeCallbackUrl(callbackUrl)
+
+  const session = await getServerSession(authOptions)
+  if (session) redirect(destination)
+
+  // NextAuth sends some sign-in failures back here rather than to the error page
+  const errorInfo = error ? describeAuthError(error) : null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <div className="p-2 bg-blue-500/10 rounded-lg flex-shrink-0">
+            <Users className="h-5 w-5 text-blue-500" />
+          </div>
+          Sign In
+        </CardTitle>
+        <CardDescription className="break-words">
+          Sign in to access your personalized UnivBot experience and save your conversation history.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {errorInfo && (
+          <Alert variant="destructive">
+            <AlertCircle />
+            <AlertTitle>{errorInfo.title}</AlertTitle>
+            <AlertDescription>{errorInfo.description}</AlertDescription>
+          </Alert>
+        )}
+        <SignInOptions callbackUrl={destination} />
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,34 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { MailCheck } from "lucide-react"
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+
+export const metadata: Metadata = {
+  title: "Check Your Email - UnivBot",
+}
+
+// Shown after requesting an email magic link
+export default function VerifyRequestPage() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <div className="p-2 bg-blue-500/10 rounded-lg flex-shrink-0">
+            <MailCheck className="h-5 w-5 text-blue-500" />
+          </div>
+          Check your email
+        </CardTitle>
+        <CardDescription className="break-words">
+          We sent you a sign-in link. Open it on this device to continue. The link expires in 24 hours and can only be
+          used once.
+        </CardDescription>
+      </CardHeader>
+      <CardFooter className="flex justify-end">
+        <Button variant="outline" asChild>
+          <Link href="/auth/signin">Use a different method</Link>
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
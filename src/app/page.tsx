@@ -2,23 +2,69 @@
 
 import type React from "react"
 
-import { useState, useRef} from "react"
+import { useState, useRef, useEffect } from "react"
+import Image from "next/image"
 import { useSession } from "next-auth/react"
+import { useChat } from "@ai-sdk/react"
+import { DefaultChatTransport, getToolName, isToolUIPart } from "ai"
 import {
+  Bell,
   Send,
   GraduationCap,
   Settings,
   Paperclip,
+  FileText,
+  X,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { SettingsDialog } from "@/components/settings-dialog"
 import { PastEventsDialog } from "@/components/past-events-dialog"
+import { RemindersDialog } from "@/components/reminders-dialog"
+import { ReminderNotifier } from "@/components/reminder-notifier"
+import { ChatSidebar } from "@/components/chat-sidebar"
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar"
 import { SignInDialog } from "@/components/sign-in-dialog"
+import { ToolCallCard } from "@/components/tool-call-card"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { cn } from "@/lib/utils"
+import { LLM_PROVIDER_STORAGE_KEY } from "@/lib/llm/config"
+import { ACCEPTED_FILE_TYPES } from "@/lib/documents/file-types"
+import { splitCitationMarkers, type Citation, type UnivBotUIMessage } from "@/lib/rag/citations"
+
+// localStorage key holding the conversation to resume after a reload
+const CHAT_SESSION_STORAGE_KEY = "univbot-chat-session"
+
+function CitationFootnote({ citation, anchorId }: { citation: Citation; anchorId: string }) {
+  const [expanded, setExpanded] = useState(false)
+
+  return (
+    <li id={anchorId} className="scroll-mt-4">
+      <button
+        type="button"
+        onClick={() => setExpanded((value) => !value)}
+        className="flex items-start gap-1 text-left hover:text-foreground transition-colors"
+      >
+        <span className="font-medium">[{citation.marker}]</span>
+        <span className="break-words">
+          {citation.fileName}
+          {citation.page && ` · p. ${citation.page}`}
+        </span>
+      </button>
+      {expanded && (
+        <blockquote className="mt-1 ml-5 pl-2 border-l-2 border-border italic whitespace-pre-wrap">
+          {citation.snippet}
+        </blockquote>
+      )}
+    </li>
+  )
+}
+
+function ChatMessage({ message }: { message: UnivBotUIMessage }) {
+  const isUser = message.role === "user"
+  const citations = message.metadata?.citations ?? []
+  const anchorId = (citation: Citation) => `cite-${message.id}-${citation.marker}`
 
-function ChatMessage({ message, isUser }: { message: string; isUser: boolean }) {
   return (
     <div className={cn("flex w-full mb-6 animate-fadeIn", isUser ? "justify-end" : "justify-start")}>
       <div
@@ -29,14 +75,121 @@ function ChatMessage({ message, isUser }: { message: string; isUser: boolean })
             : "bg-muted/80 text-foreground rounded-bl-md mr-4 border border-border/50",
         )}
       >
-        <div className="text-sm leading-relaxed whitespace-pre-wrap">
-          {message}
-        </div>
+        {message.parts.map((part, index) => {
+          if (part.type === "text") {
+            if (!part.text.trim()) return null
+            return (
+              <div key={index} className="text-sm leading-relaxed whitespace-pre-wrap">
+                {splitCitationMarkers(part.text, citations).map((segment, segmentIndex) =>
+                  typeof segment === "string" ? (
+                    segment
+                  ) : (
+                    <sup key={segmentIndex}>
+                      <a href={`#${anchorId(segment)}`} className="text-blue-600 hover:underline px-0.5">
+                        [{segment.marker}]
+                      </a>
+                    </sup>
+                  ),
+                )}
+              </div>
+            )
+          }
+
+          if (part.type === "file") {
+            return part.mediaType.startsWith("image/") ? (
+              // Data and blob URLs can't go through the optimizer; the zero size lets CSS size the image
+              <Image
+                key={index}
+                src={part.url}
+                alt={part.filename ?? "Attached image"}
+                width={0}
+                height={0}
+                sizes="100vw"
+                unoptimized
+                className="my-2 h-auto max-h-64 w-auto max-w-full rounded-lg border border-border/50"
+              />
+            ) : (
+              <a
+                key={index}
+                href={part.url}
+                target="_blank"
+                rel="noreferrer"
+                className="my-2 flex items-center gap-2 text-sm underline-offset-2 hover:underline"
+              >
+                <FileText className="h-4 w-4 flex-shrink-0" />
+                <span className="truncate">{part.filename ?? "Attached file"}</span>
+              </a>
+            )
+          }
+
+          if (isToolUIPart(part)) {
+            return (
+              <ToolCallCard
+                key={part.toolCallId}
+                toolName={String(getToolName(part))}
+                state={part.state}
+                input={part.input}
+                output={part.output}
+                errorText={part.errorText}
+              />
+            )
+          }
+
+          if (part.type === "dynamic-tool") {
+            return (
+              <ToolCallCard
+                key={part.toolCallId}
+                toolName={part.toolName}
+                state={part.state}
+                input={part.input}
+                output={part.output}
+                errorText={part.errorText}
+              />
+            )
+          }
+
+          // Step boundaries, reasoning and data parts aren't shown
+          return null
+        })}
+        {/* Document Sources */}
+        {citations.length > 0 && (
+          <ol className="mt-3 pt-2 border-t border-border/50 space-y-1 text-xs text-muted-foreground">
+            {citations.map((citation) => (
+              <CitationFootnote key={citation.marker} citation={citation} anchorId={anchorId(citation)} />
+            ))}
+          </ol>
+        )}
       </div>
     </div>
   )
 }
 
+function FollowUpSuggestions({
+  questions,
+  disabled,
+  onSelect,
+}: {
+  questions: string[]
+  disabled: boolean
+  onSelect: (question: string) => void
+}) {
+  return (
+    <div className="flex flex-wrap gap-2 -mt-3 mb-6 mr-4">
+      {questions.map((question) => (
+        <button
+          key={question}
+          type="button"
+          onClick={() => onSelect(question)}
+          disabled={disabled}
+          className="px-3 py-1.5 rounded-full border border-blue-500/30 bg-blue-500/5 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-500/10 transition-colors disabled:opacity-50 disabled:pointer-events-none text-left"
+        >
+          {question}
+        </button>
+      ))}
+    </div>
+  )
+}
+
 function TypingIndicator() {
   return (
     <div className="flex justify-start mb-6">
@@ -53,43 +206,112 @@ function TypingIndicator() {
 
 export default function ChatPage() {
   const { data: session, status: sessionStatus } = useSession()
-  // Chat functionality temporarily disabled
-  // const { messages, sendMessage, status: chatStatus } = useChat({
-  //   transport: new DefaultChatTransport({
-  //     api: "/api/chat",
-  //   }),
-  // })
+  const [chatSessionId, setChatSessionId] = useState<string>()
+  const [historyVersion, setHistoryVersion] = useState(0)
+  const { messages, setMessages, sendMessage, status: chatStatus, error: chatError } = useChat<UnivBotUIMessage>({
+    id: chatSessionId,
+    transport: new DefaultChatTransport({
+      api: "/api/chat",
+    }),
+    onFinish: () => setHistoryVersion((version) => version + 1),
+  })
 
   const [input, setInput] = useState("")
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
   const [isPastEventsOpen, setIsPastEventsOpen] = useState(false)
+  const [isRemindersOpen, setIsRemindersOpen] = useState(false)
   const [selectedFiles, setSelectedFiles] = useState<File[]>([])
+  const [isUploading, setIsUploading] = useState(false)
+  const [uploadError, setUploadError] = useState<string | null>(null)
   const chatContainerRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
+  const canChat = !!chatSessionId && !!session?.user && (chatStatus === "ready" || chatStatus === "error")
+
+  const openChatSession = (sessionId: string) => {
+    localStorage.setItem(CHAT_SESSION_STORAGE_KEY, sessionId)
+    setChatSessionId(sessionId)
+  }
+
+  const startNewChat = () => openChatSession(crypto.randomUUID())
+
+  // Resume the last conversation, or start a new one
+  useEffect(() => {
+    openChatSession(localStorage.getItem(CHAT_SESSION_STORAGE_KEY) || crypto.randomUUID())
+  }, [])
+
+  // Hydrate the transcript from the server once we know who is signed in
+  const userId = session?.user?.id
+  useEffect(() => {
+    if (!chatSessionId || !userId) return
+
+    let cancelled = false
+    fetch(`/api/chats/${chatSessionId}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.success) setMessages(data.data.messages)
+      })
+      .catch((error) => console.error("Failed to load chat history:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [chatSessionId, userId, setMessages])
+
   // Auto-scroll to bottom when new messages arrive
-  // useEffect(() => {
-  //   if (chatContainerRef.current) {
-  //     chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight
-  //   }
-  // }, [messages])
+  useEffect(() => {
+    if (chatContainerRef.current) {
+      chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight
+    }
+  }, [messages])
+
+  const hasDraft = !!input.trim() || selectedFiles.length > 0
+  const lastMessage = messages[messages.length - 1]
+
+  // Send attachments through the ingestion pipeline before the question that refers to them
+  const uploadSelectedFiles = async () => {
+    const formData = new FormData()
+    selectedFiles.forEach((file) => formData.append("files", file))
 
-  const handleSubmit = (e: React.FormEvent) => {
+    const res = await fetch("/api/documents", { method: "POST", body: formData })
+    const data = await res.json().catch(() => null)
+    if (!res.ok || !data?.success) {
+      throw new Error(data?.message || "Failed to upload files")
+    }
+  }
+
+  const sendQuestion = (text: string) => {
+    // Provider chosen in SettingsDialog; the server falls back to its default when unset
+    const provider = localStorage.getItem(LLM_PROVIDER_STORAGE_KEY) || undefined
+    sendMessage({ text }, { body: { provider } })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    // Chat functionality temporarily disabled
-    // if (input.trim() && chatStatus === "ready") {
-    //   setIsAnimating(true)
-    //   sendMessage({ text: input })
-    //   setInput("")
-    //   setSelectedFiles([])
-    //   setTimeout(() => setIsAnimating(false), 300)
-
-    //   // Reset textarea height
-    //   if (textareaRef.current) {
-    //     textareaRef.current.style.height = "auto"
-    //   }
-    // }
+    if (hasDraft && canChat && !isUploading) {
+      if (selectedFiles.length > 0) {
+        setIsUploading(true)
+        setUploadError(null)
+        try {
+          await uploadSelectedFiles()
+        } catch (error) {
+          setUploadError(error instanceof Error ? error.message : "Failed to upload files")
+          return
+        } finally {
+          setIsUploading(false)
+        }
+      }
+
+      sendQuestion(input.trim() || `I've uploaded ${selectedFiles.map((file) => file.name).join(", ")}.`)
+      setInput("")
+      setSelectedFiles([])
+
+      // Reset textarea height
+      if (textareaRef.current) {
+        textareaRef.current.style.height = "auto"
+      }
+    }
   }
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -110,7 +332,10 @@ export default function ChatPage() {
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || [])
-    setSelectedFiles(files)
+    setSelectedFiles((current) => [...current, ...files])
+    setUploadError(null)
+    // Allow picking the same file again after removing it
+    e.target.value = ""
   }
 
   const handleAttachmentClick = () => {
@@ -148,13 +373,24 @@ export default function ChatPage() {
   }
 
   return (
-    <div className="flex h-screen h-[100dvh] w-full bg-background overflow-hidden">
+    <SidebarProvider className="h-screen h-[100dvh] min-h-0 bg-background overflow-hidden">
+      {/* Conversation History */}
+      {session?.user && (
+        <ChatSidebar
+          activeSessionId={chatSessionId}
+          refreshKey={historyVersion}
+          onSelect={openChatSession}
+          onNewChat={startNewChat}
+        />
+      )}
+
       {/* Main Content Area */}
       <div className="flex-1 flex flex-col min-w-0 overflow-hidden border-t">
         {/* Top Navbar*/}
         <header className="flex-shrink-0 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
           <div className="flex items-center justify-between p-2 pl-4 pr-4 sm:pl-6 sm:pr-10">
             <div className="flex items-center gap-3 min-w-0 flex-1">
+              {session?.user && <SidebarTrigger className="-ml-1" />}
               <div className="flex flex-col min-w-0">
                 <h1 className="text-lg sm:text-xl font-bold flex items-center gap-2">🎓 UnivBot</h1>
                 <p className="text-xs sm:text-sm text-muted-foreground hidden sm:block">Your Campus Assistant</p>
@@ -175,6 +411,15 @@ export default function ChatPage() {
                       {session.user.name}
                     </span>
                   </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setIsRemindersOpen(true)}
+                  >
+                    <Bell className="h-5 w-5" />
+                    <span className="sr-only">Reminders</span>
+                  </Button>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -227,7 +472,28 @@ export default function ChatPage() {
             className="flex-1 overflow-y-auto px-4 py-6 scrollbar-thin scrollbar-thumb-muted-foreground/20 scrollbar-track-transparent"
           >
             <div className="max-w-4xl mx-auto w-full">
-              {session?.user ? (
+              {session?.user && messages.length > 0 ? (
+                // Show the conversation
+                <>
+                  {messages.map((message) => (
+                    <ChatMessage key={message.id} message={message} />
+                  ))}
+                  {/* Suggested follow-ups for the latest answer only */}
+                  {lastMessage?.role === "assistant" && !!lastMessage.metadata?.details?.followUps.length && (
+                    <FollowUpSuggestions
+                      questions={lastMessage.metadata.details.followUps}
+                      disabled={!canChat || isUploading}
+                      onSelect={sendQuestion}
+                    />
+                  )}
+                  {chatStatus === "submitted" && <TypingIndicator />}
+                  {chatError && (
+                    <p className="text-sm text-red-600 text-center mb-6">
+                      Something went wrong. Please try again.
+                    </p>
+                  )}
+                </>
+              ) : session?.user ? (
                 // Show chat interface for authenticated users
                 <div className="flex flex-col items-center justify-center min-h-full text-center py-16">
                   <div className="bg-gradient-to-br from-blue-500/10 to-purple-500/10 p-8 rounded-full mb-6">
@@ -235,7 +501,7 @@ export default function ChatPage() {
                   </div>
                   <h2 className="text-2xl font-semibold mb-3">Welcome {session.user.name}!</h2>
                   <p className="text-muted-foreground max-w-md leading-relaxed mb-6">
-                    I'm here to help you with your campus queries. Chat functionality will be enabled soon.
+                    I'm here to help you with your campus queries. Ask me about exams, labs, faculty or campus resources.
                   </p>
                 </div>
               ) : (
@@ -253,9 +519,42 @@ export default function ChatPage() {
             </div>
           </div>
 
-          {/* Input Area - Disabled */}
+          {/* Input Area */}
           <div className="flex-shrink-0 border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
-            <div className="max-w-4xl mx-auto p-4 w-full">
+            <form onSubmit={handleSubmit} className="max-w-4xl mx-auto p-4 w-full">
+              {/* Selected Attachments */}
+              {selectedFiles.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {selectedFiles.map((file, index) => (
+                    <div
+                      key={`${file.name}-${index}`}
+                      className="flex items-center gap-2 px-3 py-1 rounded-lg bg-muted/50 border border-border/50 text-sm max-w-full"
+                    >
+                      <FileText className="h-4 w-4 text-blue-500 flex-shrink-0" />
+                      <span className="truncate">{file.name}</span>
+                      <button
+                        type="button"
+                        onClick={() => removeFile(index)}
+                        disabled={isUploading}
+                        className="text-muted-foreground hover:text-foreground flex-shrink-0"
+                      >
+                        <X className="h-3 w-3" />
+                        <span className="sr-only">Remove {file.name}</span>
+                      </button>
+                    </div>
+                  ))}
+                  {isUploading && <span className="text-sm text-muted-foreground self-center">Uploading...</span>}
+                </div>
+              )}
+              {uploadError && <p className="text-sm text-red-600 mb-3">{uploadError}</p>}
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={ACCEPTED_FILE_TYPES}
+                onChange={handleFileSelect}
+                className="hidden"
+              />
               <div className="flex gap-3 items-end">
                 <div className="flex-1 relative">
                   <Textarea
@@ -263,9 +562,9 @@ export default function ChatPage() {
                     value={input}
                     onChange={handleInputChange}
                     onKeyDown={handleKeyDown}
-                    placeholder={session?.user ? "Chat functionality coming soon..." : "Sign in to start chatting..."}
+                    placeholder={session?.user ? "Ask UnivBot anything..." : "Sign in to start chatting..."}
                     className="min-h-[52px] max-h-[120px] resize-none rounded-2xl border-2 focus:border-blue-500 transition-all duration-200 pr-12 py-3"
-                    disabled={true}
+                    disabled={!session?.user}
                     rows={1}
                   />
                   {/* Attachment Button */}
@@ -275,7 +574,7 @@ export default function ChatPage() {
                     size="sm"
                     className="absolute right-2 top-1/2 -translate-y-1/2 h-8 w-8 p-0 hover:bg-blue-100 hover:text-blue-600 transition-colors duration-200"
                     onClick={handleAttachmentClick}
-                    disabled={true}
+                    disabled={!session?.user || isUploading}
                   >
                     <Paperclip className="h-4 w-4" />
                     <span className="sr-only">Attach file</span>
@@ -284,14 +583,19 @@ export default function ChatPage() {
                 <Button
                   type="submit"
                   size="lg"
-                  disabled={true}
-                  className="h-[52px] w-[52px] rounded-2xl bg-gray-300 text-gray-500 cursor-not-allowed"
+                  disabled={!canChat || !hasDraft || isUploading}
+                  className={cn(
+                    "h-[52px] w-[52px] rounded-2xl transition-colors duration-200",
+                    canChat && hasDraft && !isUploading
+                      ? "bg-blue-500 hover:bg-blue-600 text-white"
+                      : "bg-gray-300 text-gray-500 cursor-not-allowed",
+                  )}
                 >
                   <Send className="h-5 w-5" />
                   <span className="sr-only">Send message</span>
                 </Button>
               </div>
-            </div>
+            </form>
           </div>
         </div>
       </div>
@@ -302,10 +606,18 @@ export default function ChatPage() {
       {/* Past Events Dialog */}
       <PastEventsDialog open={isPastEventsOpen} onOpenChange={setIsPastEventsOpen} />
 
-      {/* Sign In Dialog - Show as overlay when not authenticated */}
+      {/* Reminders Dialog and in-app reminder toasts */}
+      {session?.user && (
+        <>
+          <RemindersDialog open={isRemindersOpen} onOpenChange={setIsRemindersOpen} />
+          <ReminderNotifier />
+        </>
+      )}
+
+      {/* Sign In Dialog - middleware redirects signed-out visitors; this covers a session expiring while the page is open */}
       {sessionStatus === "unauthenticated" && (
         <SignInDialog open={true} onOpenChange={() => {}} nonDismissible={true} />
       )}
-    </div>
+    </SidebarProvider>
   )
 }
@@ -0,0 +1,291 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { differenceInCalendarDays, format, isToday, isYesterday } from "date-fns"
+import { Archive, ArchiveRestore, ChevronRight, MessageSquare, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react"
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+  SidebarRail,
+} from "@/components/ui/sidebar"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+
+interface ChatSummary {
+  sessionId: string
+  title: string
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+interface ChatSidebarProps {
+  activeSessionId?: string
+  // Bumped by the page whenever a turn finishes so the list picks up new chats
+  refreshKey: number
+  onSelect: (sessionId: string) => void
+  onNewChat: () => void
+}
+
+// Bucket a chat by how recently it was updated
+function dateGroup(dateString: string) {
+  const date = new Date(dateString)
+  if (isToday(date)) return "Today"
+  if (isYesterday(date)) return "Yesterday"
+
+  const daysAgo = differenceInCalendarDays(new Date(), date)
+  if (daysAgo <= 7) return "Previous 7 days"
+  if (daysAgo <= 30) return "Previous 30 days"
+  return format(date, "MMMM yyyy")
+}
+
+// Chats arrive sorted newest first, so insertion order keeps the groups in order
+function groupByDate(chats: ChatSummary[]) {
+  const groups = new Map<string, ChatSummary[]>()
+  for (const chat of chats) {
+    const label = dateGroup(chat.updatedAt)
+    groups.set(label, [...(groups.get(label) ?? []), chat])
+  }
+  return Array.from(groups.entries())
+}
+
+export function ChatSidebar({ activeSessionId, refreshKey, onSelect, onNewChat }: ChatSidebarProps) {
+  const [chats, setChats] = useState<ChatSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [renameTarget, setRenameTarget] = useState<ChatSummary | null>(null)
+  const [renameValue, setRenameValue] = useState("")
+  const [deleteTarget, setDeleteTarget] = useState<ChatSummary | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch("/api/chats")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.success) setChats(data.data)
+      })
+      .catch((error) => console.error("Failed to load chats:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [refreshKey])
+
+  const updateChat = async (sessionId: string, update: Partial<Pick<ChatSummary, "title" | "isActive">>) => {
+    const res = await fetch(`/api/chats/${sessionId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(update),
+    })
+    if (!res.ok) {
+      console.error("Failed to update chat:", await res.text())
+      return
+    }
+    setChats((current) => current.map((chat) => (chat.sessionId === sessionId ? { ...chat, ...update } : chat)))
+  }
+
+  const handleRename = async () => {
+    if (!renameTarget || !renameValue.trim()) return
+    await updateChat(renameTarget.sessionId, { title: renameValue.trim() })
+    setRenameTarget(null)
+  }
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return
+    const { sessionId } = deleteTarget
+    setDeleteTarget(null)
+
+    const res = await fetch(`/api/chats/${sessionId}`, { method: "DELETE" })
+    if (!res.ok) {
+      console.error("Failed to delete chat:", await res.text())
+      return
+    }
+    setChats((current) => current.filter((chat) => chat.sessionId !== sessionId))
+    if (sessionId === activeSessionId) onNewChat()
+  }
+
+  const activeChats = chats.filter((chat) => chat.isActive)
+  const archivedChats = chats.filter((chat) => !chat.isActive)
+
+  const renderChat = (chat: ChatSummary) => (
+    <SidebarMenuItem key={chat.sessionId}>
+      <SidebarMenuButton
+        isActive={chat.sessionId === activeSessionId}
+        onClick={() => onSelect(chat.sessionId)}
+        tooltip={chat.title}
+      >
+        <MessageSquare />
+        <span>{chat.title}</span>
+      </SidebarMenuButton>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <SidebarMenuAction showOnHover>
+            <MoreHorizontal />
+            <span className="sr-only">More</span>
+          </SidebarMenuAction>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="right" align="start">
+          <DropdownMenuItem
+            onClick={() => {
+              setRenameTarget(chat)
+              setRenameValue(chat.title)
+            }}
+          >
+            <Pencil className="h-4 w-4" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => updateChat(chat.sessionId, { isActive: !chat.isActive })}>
+            {chat.isActive ? (
+              <>
+                <Archive className="h-4 w-4" />
+                Archive
+              </>
+            ) : (
+              <>
+                <ArchiveRestore className="h-4 w-4" />
+                Unarchive
+              </>
+            )}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem variant="destructive" onClick={() => setDeleteTarget(chat)}>
+            <Trash2 className="h-4 w-4" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </SidebarMenuItem>
+  )
+
+  return (
+    <>
+      <Sidebar>
+        <SidebarHeader>
+          <Button variant="outline" className="w-full justify-start gap-2" onClick={onNewChat}>
+            <Plus className="h-4 w-4" />
+            New chat
+          </Button>
+        </SidebarHeader>
+
+        <SidebarContent>
+          {isLoading ? (
+            <SidebarGroup>
+              <SidebarMenu>
+                {Array.from({ length: 5 }).map((_, index) => (
+                  <SidebarMenuItem key={index}>
+                    <SidebarMenuSkeleton />
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroup>
+          ) : activeChats.length === 0 && archivedChats.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-muted-foreground">No conversations yet.</p>
+          ) : (
+            groupByDate(activeChats).map(([label, group]) => (
+              <SidebarGroup key={label}>
+                <SidebarGroupLabel>{label}</SidebarGroupLabel>
+                <SidebarGroupContent>
+                  <SidebarMenu>{group.map(renderChat)}</SidebarMenu>
+                </SidebarGroupContent>
+              </SidebarGroup>
+            ))
+          )}
+
+          {archivedChats.length > 0 && (
+            <Collapsible className="group/collapsible">
+              <SidebarGroup>
+                <SidebarGroupLabel asChild>
+                  <CollapsibleTrigger>
+                    Archived ({archivedChats.length})
+                    <ChevronRight className="ml-auto transition-transform group-data-[state=open]/collapsible:rotate-90" />
+                  </CollapsibleTrigger>
+                </SidebarGroupLabel>
+                <CollapsibleContent>
+                  <SidebarGroupContent>
+                    <SidebarMenu>{archivedChats.map(renderChat)}</SidebarMenu>
+                  </SidebarGroupContent>
+                </CollapsibleContent>
+              </SidebarGroup>
+            </Collapsible>
+          )}
+        </SidebarContent>
+        <SidebarRail />
+      </Sidebar>
+
+      {/* Rename Dialog */}
+      <Dialog open={!!renameTarget} onOpenChange={(open) => !open && setRenameTarget(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rename conversation</DialogTitle>
+            <DialogDescription>Give this conversation a name you'll recognise later.</DialogDescription>
+          </DialogHeader>
+          <Input
+            value={renameValue}
+            maxLength={120}
+            onChange={(e) => setRenameValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleRename()
+            }}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenameTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRename} disabled={!renameValue.trim()} className="bg-blue-500 hover:bg-blue-600">
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleteTarget?.title}" and all of its messages will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
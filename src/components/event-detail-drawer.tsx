@@ -0,0 +1,151 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { UIMessage } from "ai"
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from "@/components/ui/drawer"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { MessageSquare, Wrench } from "lucide-react"
+
+interface EventDetail {
+  id: string
+  title: string
+  description?: string
+  status: string
+  toolName?: string
+  payload: {
+    args?: unknown
+    result?: unknown
+    error?: string
+  }
+  createdAt: string
+  completedAt?: string
+  sourceMessage: UIMessage | null
+}
+
+interface EventDetailDrawerProps {
+  eventId: string | null
+  onOpenChange: (open: boolean) => void
+}
+
+function JsonBlock({ value }: { value: unknown }) {
+  return (
+    <pre className="text-xs bg-muted/50 border border-border/50 rounded-lg p-3 overflow-x-auto whitespace-pre-wrap break-words">
+      {JSON.stringify(value, null, 2)}
+    </pre>
+  )
+}
+
+export function EventDetailDrawer({ eventId, onOpenChange }: EventDetailDrawerProps) {
+  const [event, setEvent] = useState<EventDetail | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!eventId) return
+
+    let cancelled = false
+    setEvent(null)
+    setIsLoading(true)
+    setLoadError(null)
+
+    fetch(`/api/events/${eventId}`)
+      .then(async (res) => {
+        const data = await res.json()
+        if (!res.ok || !data.success) {
+          throw new Error(data.message || data.error || "Failed to load event")
+        }
+        if (!cancelled) setEvent(data.data)
+      })
+      .catch((error) => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : "Failed to load event")
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [eventId])
+
+  const sourceText = event?.sourceMessage?.parts
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("")
+    .trim()
+
+  return (
+    <Drawer open={!!eventId} onOpenChange={onOpenChange} direction="right">
+      <DrawerContent className="data-[vaul-drawer-direction=right]:sm:max-w-lg">
+        <DrawerHeader>
+          <DrawerTitle className="flex items-center gap-2">
+            <Wrench className="h-4 w-4 text-blue-500" />
+            {event?.title ?? "Tool Call"}
+          </DrawerTitle>
+          <DrawerDescription className="break-words">
+            {event?.description ?? "Details of this tool invocation."}
+          </DrawerDescription>
+        </DrawerHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 space-y-5">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+          {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+
+          {event && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {event.toolName && <Badge variant="secondary">{event.toolName}</Badge>}
+                <Badge variant="outline">{event.status}</Badge>
+                <span className="text-muted-foreground">{new Date(event.createdAt).toLocaleString()}</span>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Arguments</h4>
+                <JsonBlock value={event.payload.args ?? {}} />
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Result</h4>
+                {event.payload.error ? (
+                  <p className="text-sm text-red-600 break-words">{event.payload.error}</p>
+                ) : event.payload.result !== undefined ? (
+                  <JsonBlock value={event.payload.result} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">No result recorded yet.</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold flex items-center gap-2">
+                  <MessageSquare className="h-4 w-4" />
+                  From message
+                </h4>
+                {sourceText ? (
+                  <div className="text-sm leading-relaxed whitespace-pre-wrap bg-muted/80 border border-border/50 rounded-2xl rounded-bl-md px-4 py-3">
+                    {sourceText}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">The originating chat message is no longer available.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DrawerFooter>
+          <DrawerClose asChild>
+            <Button variant="outline">Close</Button>
+          </DrawerClose>
+        </DrawerFooter>
+      </DrawerContent>
+    </Drawer>
+  )
+}
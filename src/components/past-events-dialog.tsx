@@ -1,113 +1,158 @@
 "use client"
 
-import { useState } from "react"
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Calendar, Clock, Download, Eye, FileText, Wrench } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Calendar as CalendarPicker } from "@/components/ui/calendar"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { Calendar, CalendarPlus, CalendarRange, Clock, Download, Eye, FileText, Search, Wrench, X } from "lucide-react"
+import { endOfDay, format, startOfDay } from "date-fns"
+import type { DateRange } from "react-day-picker"
+import { EventDetailDrawer } from "@/components/event-detail-drawer"
+import type { SerializedActivityEvent } from "@/lib/activity"
 
 interface PastEventsDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
 }
 
-// Mock data for RAG pipeline history
-const pastEvents = [
-  {
-    id: 1,
-    title: "Document Processing",
-    date: "2024-01-15",
-    time: "10:30 AM",
-    type: "Document",
-    status: "Completed",
-    description: "Uploaded and processed course syllabus for CS101",
-    fileSize: "2.3 MB",
-    fileName: "CS101_Syllabus.pdf",
-    action: "download"
-  },
-  {
-    id: 2,
-    title: "Schedule Tool Call",
-    date: "2024-01-15",
-    time: "11:45 AM",
-    type: "Tool",
-    status: "Completed",
-    description: "Scheduled office hours with Dr. Smith for next week",
-    toolUsed: "Calendar",
-    action: "view"
-  },
-  {
-    id: 3,
-    title: "Document Processing",
-    date: "2024-01-16",
-    time: "2:15 PM",
-    type: "Document",
-    status: "Completed",
-    description: "Processed lab assignment guidelines for Physics Lab",
-    fileSize: "1.8 MB",
-    fileName: "Physics_Lab_Guidelines.pdf",
-    action: "download"
-  },
-  {
-    id: 4,
-    title: "Research Tool Call",
-    date: "2024-01-16",
-    time: "3:30 PM",
-    type: "Tool",
-    status: "Completed",
-    description: "Researched latest papers on machine learning algorithms",
-    toolUsed: "Research",
-    action: "view"
-  },
-  {
-    id: 5,
-    title: "Document Processing",
-    date: "2024-01-17",
-    time: "9:20 AM",
-    type: "Document",
-    status: "Completed",
-    description: "Uploaded and analyzed exam schedule for Spring 2024",
-    fileSize: "3.1 MB",
-    fileName: "Spring_Exam_Schedule.pdf",
-    action: "download"
-  },
-  {
-    id: 6,
-    title: "Booking Tool Call",
-    date: "2024-01-17",
-    time: "10:45 AM",
-    type: "Tool",
-    status: "Completed",
-    description: "Booked study room in library for group project",
-    toolUsed: "Booking",
-    action: "view"
-  },
-  {
-    id: 7,
-    title: "Document Processing",
-    date: "2024-01-18",
-    time: "1:15 PM",
-    type: "Document",
-    status: "Completed",
-    description: "Processed course registration form and requirements",
-    fileSize: "4.2 MB",
-    fileName: "Course_Registration.pdf",
-    action: "download"
-  },
-  {
-    id: 8,
-    title: "Notification Tool Call",
-    date: "2024-01-18",
-    time: "2:00 PM",
-    type: "Tool",
-    status: "Completed",
-    description: "Set up reminders for upcoming assignment deadlines",
-    toolUsed: "Notifications",
-    action: "view"
+// Dates arrive as ISO strings once the event has been through JSON
+type PastEvent = Omit<SerializedActivityEvent, "createdAt" | "completedAt"> & {
+  createdAt: string
+  completedAt?: string
+}
+
+type TypeFilter = "all" | "Document" | "Tool"
+type StatusFilter = "all" | "pending" | "processing" | "completed" | "failed"
+
+const PAGE_SIZE = 10
+const SEARCH_DEBOUNCE_MS = 300
+
+// Page numbers to show: first, last and a window around the current page, with gaps as null
+function pageWindow(page: number, totalPages: number) {
+  const pages: Array<number | null> = []
+  for (let i = 1; i <= totalPages; i++) {
+    if (i === 1 || i === totalPages || Math.abs(i - page) <= 1) {
+      pages.push(i)
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null)
+    }
   }
-]
+  return pages
+}
 
 export function PastEventsDialog({ open, onOpenChange }: PastEventsDialogProps) {
+  const [events, setEvents] = useState<PastEvent[]>([])
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [viewingEventId, setViewingEventId] = useState<string | null>(null)
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>("all")
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all")
+  const [dateRange, setDateRange] = useState<DateRange | undefined>()
+  const [search, setSearch] = useState("")
+  const [debouncedSearch, setDebouncedSearch] = useState("")
+  // The in-flight request, aborted when a newer one starts so stale pages never win
+  const requestRef = useRef<AbortController | null>(null)
+
+  const fetchEvents = async (pageToLoad: number) => {
+    requestRef.current?.abort()
+    const controller = new AbortController()
+    requestRef.current = controller
+
+    setIsLoading(true)
+    setLoadError(null)
+    try {
+      const params = new URLSearchParams({ page: String(pageToLoad), limit: String(PAGE_SIZE) })
+      if (typeFilter !== "all") params.set("type", typeFilter)
+      if (statusFilter !== "all") params.set("status", statusFilter)
+      if (dateRange?.from) params.set("from", startOfDay(dateRange.from).toISOString())
+      if (dateRange?.from) params.set("to", endOfDay(dateRange.to ?? dateRange.from).toISOString())
+      if (debouncedSearch) params.set("q", debouncedSearch)
+
+      const res = await fetch(`/api/events?${params}`, { signal: controller.signal })
+      const data = await res.json()
+      if (!res.ok || !data.success) {
+        throw new Error(data.message || data.error || "Failed to load events")
+      }
+      setEvents(data.data)
+      setPage(pageToLoad)
+      setTotalPages(data.pagination.totalPages)
+    } catch (error) {
+      if (controller.signal.aborted) return
+      setLoadError(error instanceof Error ? error.message : "Failed to load events")
+    } finally {
+      if (requestRef.current === controller) {
+        requestRef.current = null
+        setIsLoading(false)
+      }
+    }
+  }
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  // Back to the first page whenever the dialog opens or a filter changes
+  useEffect(() => {
+    if (open) fetchEvents(1)
+  }, [open, typeFilter, statusFilter, dateRange, debouncedSearch])
+
+  // Drop any request still running when the dialog closes or unmounts
+  useEffect(() => {
+    if (!open) return
+    return () => requestRef.current?.abort()
+  }, [open])
+
+  const hasFilters = typeFilter !== "all" || statusFilter !== "all" || !!dateRange || !!search
+
+  const clearFilters = () => {
+    setTypeFilter("all")
+    setStatusFilter("all")
+    setDateRange(undefined)
+    setSearch("")
+  }
+
+  const goToPage = (e: React.MouseEvent, target: number) => {
+    e.preventDefault()
+    if (target >= 1 && target <= totalPages && target !== page && !isLoading) {
+      fetchEvents(target)
+    }
+  }
+
+  const formatFileSize = (bytes: unknown) => {
+    if (typeof bytes !== "number") return null
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  }
+
+  const formatStatus = (status: string) => status.charAt(0).toUpperCase() + status.slice(1)
+
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit'
+    })
+  }
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
@@ -126,6 +171,16 @@ export function PastEventsDialog({ open, onOpenChange }: PastEventsDialogProps)
     }
   }
 
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'completed': return 'bg-green-100 text-green-800'
+      case 'processing': return 'bg-blue-100 text-blue-800'
+      case 'pending': return 'bg-yellow-100 text-yellow-800'
+      case 'failed': return 'bg-red-100 text-red-800'
+      default: return 'bg-gray-100 text-gray-800'
+    }
+  }
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="w-[calc(100vw-2rem)] max-w-[calc(100vw-2rem)] sm:w-auto sm:max-w-4xl max-h-[80vh] flex flex-col mx-2 sm:mx-0" showCloseButton={false}>
@@ -151,12 +206,82 @@ export function PastEventsDialog({ open, onOpenChange }: PastEventsDialogProps)
           <DialogDescription className="mt-2 break-words">
             View all completed/pending activities.
           </DialogDescription>
+
+          {/* Filters */}
+          <div className="flex flex-col gap-3 mt-4">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              <Tabs value={typeFilter} onValueChange={(value) => setTypeFilter(value as TypeFilter)}>
+                <TabsList>
+                  <TabsTrigger value="all">All</TabsTrigger>
+                  <TabsTrigger value="Document">Documents</TabsTrigger>
+                  <TabsTrigger value="Tool">Tools</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search events..."
+                  className="pl-9"
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+                <SelectTrigger className="w-[160px]" size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="processing">Processing</SelectItem>
+                  <SelectItem value="completed">Completed</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                </SelectContent>
+              </Select>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm" className="font-normal">
+                    <CalendarRange className="h-4 w-4 mr-1" />
+                    {dateRange?.from
+                      ? dateRange.to
+                        ? `${format(dateRange.from, "MMM d, yyyy")} – ${format(dateRange.to, "MMM d, yyyy")}`
+                        : format(dateRange.from, "MMM d, yyyy")
+                      : "Any date"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <CalendarPicker
+                    mode="range"
+                    selected={dateRange}
+                    onSelect={setDateRange}
+                    numberOfMonths={2}
+                    disabled={{ after: new Date() }}
+                  />
+                </PopoverContent>
+              </Popover>
+              {hasFilters && (
+                <Button variant="ghost" size="sm" onClick={clearFilters}>
+                  <X className="h-4 w-4 mr-1" />
+                  Clear filters
+                </Button>
+              )}
+            </div>
+          </div>
         </div>
 
         {/* Scrollable Content */}
         <div className="flex-1 overflow-y-auto mt-4">
           <div className="space-y-4">
-          {pastEvents.map((event) => (
+          {events.length === 0 && !isLoading && !loadError && (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {hasFilters
+                ? "No events match these filters."
+                : "No activity yet. Uploaded documents and tool calls will show up here."}
+            </p>
+          )}
+          {events.map((event) => (
             <div
               key={event.id}
               className="p-4 rounded-lg border border-border transition-all duration-200 hover:shadow-md"
@@ -168,8 +293,8 @@ export function PastEventsDialog({ open, onOpenChange }: PastEventsDialogProps)
                      <Badge className={`${getEventTypeColor(event.type)} flex-shrink-0`}>
                        {event.type}
                      </Badge>
-                     <Badge variant="secondary" className="bg-green-100 text-green-800 flex-shrink-0">
-                       {event.status}
+                     <Badge variant="secondary" className={`${getStatusColor(event.status)} flex-shrink-0`}>
+                       {formatStatus(event.status)}
                      </Badge>
                    </div>
                  </div>
@@ -177,11 +302,11 @@ export function PastEventsDialog({ open, onOpenChange }: PastEventsDialogProps)
                                     <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm text-muted-foreground">
                      <div className="flex items-center gap-2">
                        <Calendar className="h-4 w-4 flex-shrink-0" />
-                       <span className="break-words">{formatDate(event.date)}</span>
+                       <span className="break-words">{formatDate(event.createdAt)}</span>
                      </div>
                      <div className="flex items-center gap-2">
                        <Clock className="h-4 w-4 flex-shrink-0" />
-                       <span>{event.time}</span>
+                       <span>{formatTime(event.createdAt)}</span>
                      </div>
                    </div>
                    
@@ -190,51 +315,109 @@ export function PastEventsDialog({ open, onOpenChange }: PastEventsDialogProps)
                        <>
                          <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
                          <span className="text-sm text-muted-foreground break-words">
-                           {event.fileSize} • {event.fileName}
+                           {[formatFileSize(event.payload.fileSize), event.payload.fileName].filter(Boolean).join(" • ")}
                          </span>
                        </>
                      ) : (
                        <>
                          <Wrench className="h-4 w-4 text-muted-foreground flex-shrink-0" />
                          <span className="text-sm text-muted-foreground break-words">
-                           {event.toolUsed} Tool
+                           {event.toolName} Tool
                          </span>
                        </>
                      )}
                    </div>
                    
                    <div className="flex items-center gap-2 mt-3">
+                     {event.type === 'Document' ? (
+                       event.documentId && <Button
+                         variant="outline"
+                         size="sm"
+                         className="h-7 px-2 text-xs flex-shrink-0"
+                         asChild
+                       >
+                         {/* The route sets Content-Disposition, so the browser downloads instead of navigating */}
+                         <a href={`/api/documents/${event.documentId}/file`}>
+                           <Download className="h-3 w-3 mr-1" />
+                           Download
+                         </a>
+                       </Button>
+                     ) : (
+                       <Button
+                         variant="outline"
+                         size="sm"
+                         className="h-7 px-2 text-xs flex-shrink-0"
+                         onClick={() => setViewingEventId(event.id)}
+                       >
+                         <Eye className="h-3 w-3 mr-1" />
+                         View
+                       </Button>
+                     )}
                      <Button
                        variant="outline"
                        size="sm"
                        className="h-7 px-2 text-xs flex-shrink-0"
-                       onClick={() => {
-                         if (event.action === 'download') {
-                           console.log(`Downloading ${event.fileName}`)
-                         } else {
-                           console.log(`Viewing ${event.title}`)
-                         }
-                       }}
+                       asChild
                      >
-                       {event.action === 'download' ? (
-                         <>
-                           <Download className="h-3 w-3 mr-1" />
-                           Download
-                         </>
-                       ) : (
-                         <>
-                           <Eye className="h-3 w-3 mr-1" />
-                           View
-                         </>
-                       )}
+                       <a href={`/api/events/${event.id}/calendar`}>
+                         <CalendarPlus className="h-3 w-3 mr-1" />
+                         Export to calendar
+                       </a>
                      </Button>
                    </div>
                </div>
             </div>
           ))}
+          {loadError && (
+            <p className="text-sm text-red-600 text-center py-2">{loadError}</p>
+          )}
+          {isLoading && events.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+          )}
           </div>
         </div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <Pagination className="flex-shrink-0 pt-4 border-t">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={(e) => goToPage(e, page - 1)}
+                  aria-disabled={page === 1}
+                  className={page === 1 ? "pointer-events-none opacity-50" : undefined}
+                />
+              </PaginationItem>
+              {pageWindow(page, totalPages).map((pageNumber, index) => (
+                <PaginationItem key={pageNumber ?? `gap-${index}`}>
+                  {pageNumber === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink href="#" isActive={pageNumber === page} onClick={(e) => goToPage(e, pageNumber)}>
+                      {pageNumber}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={(e) => goToPage(e, page + 1)}
+                  aria-disabled={page === totalPages}
+                  className={page === totalPages ? "pointer-events-none opacity-50" : undefined}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
       </DialogContent>
+
+      {/* Tool Call Details */}
+      <EventDetailDrawer
+        eventId={viewingEventId}
+        onOpenChange={(open) => !open && setViewingEventId(null)}
+      />
     </Dialog>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,58 @@
+"use client"
+
+import { useEffect } from "react"
+import { toast } from "sonner"
+import { Bell } from "lucide-react"
+
+const POLL_INTERVAL_MS = 30_000
+
+interface ReminderNotification {
+  id: string
+  title: string
+  notes?: string
+}
+
+/**
+ * Delivers the in-app reminder channel: polls for sent reminders and shows each one as a toast.
+ * Renders nothing; mount it once for signed-in users.
+ */
+export function ReminderNotifier() {
+  useEffect(() => {
+    let cancelled = false
+
+    const poll = async () => {
+      try {
+        const res = await fetch("/api/reminders/notifications")
+        const data = res.ok ? await res.json() : null
+        const reminders: ReminderNotification[] = data?.success ? data.data : []
+        if (cancelled || reminders.length === 0) return
+
+        for (const reminder of reminders) {
+          toast(reminder.title, {
+            description: reminder.notes,
+            icon: <Bell className="h-4 w-4" />,
+            duration: Infinity,
+            closeButton: true,
+          })
+        }
+
+        await fetch("/api/reminders/notifications", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ids: reminders.map((reminder) => reminder.id) }),
+        })
+      } catch (error) {
+        console.error("Failed to check reminders:", error)
+      }
+    }
+
+    poll()
+    const timer = setInterval(poll, POLL_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [])
+
+  return null
+}
@@ -0,0 +1,302 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Bell, BellOff, BellRing, Loader2, Trash2 } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  REMINDER_CHANNEL_LABELS,
+  type ReminderChannel,
+  type ReminderStatus,
+} from "@/lib/reminder-schema"
+
+interface RemindersDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+interface ReminderSummary {
+  id: string
+  title: string
+  notes?: string
+  remindAt: string
+  channels: ReminderChannel[]
+  status: ReminderStatus
+  deliveries: { channel: ReminderChannel; status: "sent" | "failed" | "skipped"; error?: string }[]
+}
+
+type PushState = "unsupported" | "unavailable" | "off" | "on" | "busy"
+
+const STATUS_STYLES: Record<ReminderStatus, string> = {
+  scheduled: "bg-blue-500/10 text-blue-600 dark:text-blue-400",
+  sending: "bg-blue-500/10 text-blue-600 dark:text-blue-400",
+  sent: "bg-green-500/10 text-green-600 dark:text-green-400",
+  failed: "bg-red-500/10 text-red-600 dark:text-red-400",
+  cancelled: "bg-muted text-muted-foreground",
+}
+
+// VAPID keys are base64url; PushManager wants the raw bytes
+function base64UrlToBytes(value: string) {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/")
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+}
+
+function pushSupported() {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window
+}
+
+export function RemindersDialog({ open, onOpenChange }: RemindersDialogProps) {
+  const [upcoming, setUpcoming] = useState<ReminderSummary[]>([])
+  const [past, setPast] = useState<ReminderSummary[]>([])
+  const [availableChannels, setAvailableChannels] = useState<ReminderChannel[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+  const [pushState, setPushState] = useState<PushState>("unsupported")
+  const [publicKey, setPublicKey] = useState<string | null>(null)
+
+  const fetchReminders = async () => {
+    setIsLoading(true)
+    setLoadError(null)
+    try {
+      const res = await fetch("/api/reminders")
+      const data = await res.json()
+      if (!res.ok || !data.success) {
+        throw new Error(data.message || data.error || "Failed to load reminders")
+      }
+      setUpcoming(data.data.upcoming)
+      setPast(data.data.past)
+      setAvailableChannels(data.data.availableChannels)
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : "Failed to load reminders")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Whether this browser can receive push and is already subscribed
+  const checkPush = async () => {
+    if (!pushSupported()) {
+      setPushState("unsupported")
+      return
+    }
+    try {
+      const res = await fetch("/api/push/subscription")
+      const data = await res.json()
+      const key: string | null = data?.data?.publicKey ?? null
+      setPublicKey(key)
+      if (!key) {
+        setPushState("unavailable")
+        return
+      }
+      const registration = await navigator.serviceWorker.getRegistration()
+      const subscription = await registration?.pushManager.getSubscription()
+      setPushState(subscription ? "on" : "off")
+    } catch (error) {
+      console.error("Failed to check push notifications:", error)
+      setPushState("unavailable")
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+    fetchReminders()
+    checkPush()
+  }, [open])
+
+  const handleCancel = async (id: string) => {
+    setCancellingId(id)
+    try {
+      const res = await fetch(`/api/reminders/${id}`, { method: "DELETE" })
+      if (!res.ok) {
+        console.error("Failed to cancel reminder:", await res.text())
+        return
+      }
+      await fetchReminders()
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  const togglePush = async () => {
+    if (!publicKey) return
+    const enabling = pushState === "off"
+    setPushState("busy")
+    try {
+      const registration = await navigator.serviceWorker.register("/push-sw.js")
+      const existing = await registration.pushManager.getSubscription()
+
+      if (enabling) {
+        if ((await Notification.requestPermission()) !== "granted") {
+          setPushState("off")
+          return
+        }
+        const subscription =
+          existing ??
+          (await registration.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: base64UrlToBytes(publicKey),
+          }))
+        const res = await fetch("/api/push/subscription", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(subscription.toJSON()),
+        })
+        setPushState(res.ok ? "on" : "off")
+      } else {
+        if (existing) {
+          await fetch("/api/push/subscription", {
+            method: "DELETE",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ endpoint: existing.endpoint }),
+          })
+          await existing.unsubscribe()
+        }
+        setPushState("off")
+      }
+    } catch (error) {
+      console.error("Failed to update push notifications:", error)
+      await checkPush()
+    }
+  }
+
+  const renderReminder = (reminder: ReminderSummary, cancellable: boolean) => {
+    // Failed channels are retried, so only each channel's latest outcome matters
+    const latest = new Map(reminder.deliveries.map((delivery) => [delivery.channel, delivery]))
+    const problems = [...latest.values()].filter((delivery) => delivery.status !== "sent")
+
+    return (
+      <div key={reminder.id} className="p-4 rounded-lg border border-border">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0 space-y-1">
+            <h3 className="font-semibold break-words">{reminder.title}</h3>
+            <p className="text-sm text-muted-foreground">
+              {format(new Date(reminder.remindAt), "EEE, MMM d yyyy 'at' h:mm a")}
+            </p>
+            {reminder.notes && <p className="text-sm break-words">{reminder.notes}</p>}
+            <div className="flex flex-wrap gap-2 pt-1">
+              <Badge variant="secondary" className={STATUS_STYLES[reminder.status]}>
+                {reminder.status.charAt(0).toUpperCase() + reminder.status.slice(1)}
+              </Badge>
+              {reminder.channels.map((channel) => (
+                <Badge
+                  key={channel}
+                  variant="outline"
+                  title={availableChannels.includes(channel) ? undefined : "Not available on this server"}
+                  className={availableChannels.includes(channel) ? undefined : "opacity-50 line-through"}
+                >
+                  {REMINDER_CHANNEL_LABELS[channel]}
+                </Badge>
+              ))}
+            </div>
+            {problems.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {problems
+                  .map((delivery) => `${REMINDER_CHANNEL_LABELS[delivery.channel]}: ${delivery.error ?? delivery.status}`)
+                  .join(" • ")}
+              </p>
+            )}
+          </div>
+          {cancellable && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 px-2 text-xs flex-shrink-0"
+              disabled={cancellingId === reminder.id}
+              onClick={() => handleCancel(reminder.id)}
+            >
+              {cancellingId === reminder.id ? (
+                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              ) : (
+                <Trash2 className="h-3 w-3 mr-1" />
+              )}
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100vw-2rem)] max-w-[calc(100vw-2rem)] sm:w-auto sm:max-w-2xl max-h-[80vh] flex flex-col mx-2 sm:mx-0" showCloseButton={false}>
+        {/* Fixed Header */}
+        <div className="flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <DialogTitle className="flex items-center gap-2 text-xl">
+              <div className="p-2 bg-blue-500/10 rounded-lg">
+                <Bell className="h-5 w-5 text-blue-500" />
+              </div>
+              Reminders
+            </DialogTitle>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 px-3 text-sm flex-shrink-0"
+              onClick={() => onOpenChange(false)}
+            >
+              Close
+            </Button>
+          </div>
+
+          <DialogDescription className="mt-2 break-words">
+            Ask UnivBot to remind you about deadlines, exams or lab bookings.
+          </DialogDescription>
+
+          {pushState !== "unsupported" && pushState !== "unavailable" && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-4"
+              disabled={pushState === "busy"}
+              onClick={togglePush}
+            >
+              {pushState === "on" ? (
+                <>
+                  <BellOff className="h-4 w-4 mr-2" />
+                  Turn off push on this device
+                </>
+              ) : (
+                <>
+                  <BellRing className="h-4 w-4 mr-2" />
+                  Enable push on this device
+                </>
+              )}
+            </Button>
+          )}
+        </div>
+
+        {/* Scrollable Content */}
+        <div className="flex-1 overflow-y-auto mt-4 space-y-6">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+          {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+
+          {!isLoading && !loadError && (
+            <>
+              <section className="space-y-3">
+                <h4 className="text-sm font-semibold">Upcoming</h4>
+                {upcoming.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No reminders scheduled. Try asking "remind me about my CS101 assignment on Friday at 9am".
+                  </p>
+                ) : (
+                  upcoming.map((reminder) => renderReminder(reminder, reminder.status === "scheduled"))
+                )}
+              </section>
+
+              {past.length > 0 && (
+                <section className="space-y-3">
+                  <h4 className="text-sm font-semibold">Recent</h4>
+                  {past.map((reminder) => renderReminder(reminder, false))}
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
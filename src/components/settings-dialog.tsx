@@ -1,16 +1,44 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { useTheme } from "next-themes"
 import { useSession, signOut } from "next-auth/react"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
 import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Separator } from "@/components/ui/separator"
 import { Input } from "@/components/ui/input"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
-import { Palette, Moon, Sun, Monitor, Key, LogOut, User, Mail } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Palette, Moon, Sun, Monitor, Key, LogOut, User, Mail, ShieldCheck, Trash2, GraduationCap, X, CalendarDays, Copy } from "lucide-react"
+import { DEFAULT_LLM_PROVIDER, LLM_PROVIDERS, LLM_PROVIDER_STORAGE_KEY, isLLMProviderId, type LLMProviderId } from "@/lib/llm/config"
+import { MAX_ENROLLED_COURSES, MAX_STUDY_YEAR, courseCodeSchema, type StudentProfile } from "@/lib/profile-schema"
+
+type ProfileForm = Record<"department" | "program" | "studentId" | "year", string> & { enrolledCourses: string[] }
+
+const EMPTY_PROFILE: ProfileForm = { department: "", program: "", studentId: "", year: "", enrolledCourses: [] }
+
+function toProfileForm(profile: StudentProfile): ProfileForm {
+  return {
+    department: profile.department ?? "",
+    program: profile.program ?? "",
+    studentId: profile.studentId ?? "",
+    year: profile.year ? String(profile.year) : "",
+    enrolledCourses: profile.enrolledCourses,
+  }
+}
 
 interface SettingsDialogProps {
   open: boolean
@@ -21,10 +49,199 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
   const { theme, setTheme } = useTheme()
   const { data: session } = useSession()
   const [geminiApiKey, setGeminiApiKey] = useState("")
+  const [llmProvider, setLlmProvider] = useState<LLMProviderId>(DEFAULT_LLM_PROVIDER)
+  const [maskedApiKey, setMaskedApiKey] = useState<string | null>(null)
+  const [apiKeyAction, setApiKeyAction] = useState<"save" | "test" | "remove" | null>(null)
+  const [apiKeyMessage, setApiKeyMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [profile, setProfile] = useState<ProfileForm>(EMPTY_PROFILE)
+  const [courseInput, setCourseInput] = useState("")
+  const [isSavingProfile, setIsSavingProfile] = useState(false)
+  const [profileMessage, setProfileMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [calendarFeedUrl, setCalendarFeedUrl] = useState<string | null>(null)
+  const [calendarMessage, setCalendarMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  // Load the saved key's masked suffix whenever the dialog opens
+  useEffect(() => {
+    if (!open || !session?.user) return
+    fetch("/api/user/api-key")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.success) setMaskedApiKey(data.data.maskedKey)
+      })
+      .catch((error) => console.error("Failed to load API key status:", error))
+  }, [open, session?.user])
+
+  // Load the calendar subscription URL whenever the dialog opens
+  useEffect(() => {
+    if (!open || !session?.user) return
+    setCalendarMessage(null)
+    fetch("/api/calendar/feed")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.success) setCalendarFeedUrl(data.data.url)
+      })
+      .catch((error) => console.error("Failed to load calendar feed:", error))
+  }, [open, session?.user])
+
+  // Load the academic profile whenever the dialog opens
+  useEffect(() => {
+    if (!open || !session?.user) return
+    setProfileMessage(null)
+    fetch("/api/user/profile")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.success && data.profile) setProfile(toProfileForm(data.profile))
+      })
+      .catch((error) => console.error("Failed to load profile:", error))
+  }, [open, session?.user])
+
+  const updateProfileField = (field: Exclude<keyof ProfileForm, "enrolledCourses">, value: string) => {
+    setProfile((current) => ({ ...current, [field]: value }))
+  }
+
+  const handleAddCourse = () => {
+    const parsed = courseCodeSchema.safeParse(courseInput)
+    if (!parsed.success) {
+      setProfileMessage({ type: "error", text: parsed.error.issues[0]?.message ?? "Invalid course code" })
+      return
+    }
+    setProfileMessage(null)
+    setProfile((current) =>
+      current.enrolledCourses.includes(parsed.data)
+        ? current
+        : { ...current, enrolledCourses: [...current.enrolledCourses, parsed.data] },
+    )
+    setCourseInput("")
+  }
+
+  const handleRemoveCourse = (code: string) => {
+    setProfile((current) => ({
+      ...current,
+      enrolledCourses: current.enrolledCourses.filter((course) => course !== code),
+    }))
+  }
+
+  const handleSaveProfile = async () => {
+    setIsSavingProfile(true)
+    setProfileMessage(null)
+    try {
+      const res = await fetch("/api/user/profile", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          department: profile.department,
+          program: profile.program,
+          studentId: profile.studentId,
+          year: profile.year ? Number(profile.year) : null,
+          enrolledCourses: profile.enrolledCourses,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok || !data.success) {
+        throw new Error(data.message || data.error || "Failed to update profile")
+      }
+      setProfile(toProfileForm(data.data))
+      setProfileMessage({ type: "success", text: data.message })
+    } catch (error) {
+      setProfileMessage({ type: "error", text: error instanceof Error ? error.message : "Failed to update profile" })
+    } finally {
+      setIsSavingProfile(false)
+    }
+  }
+
+  const callApiKeyRoute = async (action: "save" | "test" | "remove", request: () => Promise<Response>) => {
+    setApiKeyAction(action)
+    setApiKeyMessage(null)
+    try {
+      const res = await request()
+      const data = await res.json()
+      if (!res.ok || !data.success) {
+        throw new Error(data.message || data.error || "Request failed")
+      }
+      return data
+    } catch (error) {
+      setApiKeyMessage({ type: "error", text: error instanceof Error ? error.message : "Request failed" })
+      return null
+    } finally {
+      setApiKeyAction(null)
+    }
+  }
+
+  const handleSaveApiKey = async () => {
+    const data = await callApiKeyRoute("save", () =>
+      fetch("/api/user/api-key", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apiKey: geminiApiKey }),
+      }),
+    )
+    if (data) {
+      setMaskedApiKey(data.data.maskedKey)
+      setGeminiApiKey("")
+      setApiKeyMessage({ type: "success", text: data.message })
+    }
+  }
+
+  const handleTestApiKey = async () => {
+    // Tests the key being typed, or the saved key when the field is empty
+    const data = await callApiKeyRoute("test", () =>
+      fetch("/api/user/api-key/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apiKey: geminiApiKey || undefined }),
+      }),
+    )
+    if (data) {
+      setApiKeyMessage({ type: data.data.valid ? "success" : "error", text: data.message })
+    }
+  }
+
+  const handleRemoveApiKey = async () => {
+    const data = await callApiKeyRoute("remove", () => fetch("/api/user/api-key", { method: "DELETE" }))
+    if (data) {
+      setMaskedApiKey(null)
+      setApiKeyMessage({ type: "success", text: data.message })
+    }
+  }
+
+  // Load the saved provider preference once we're on the client
+  useEffect(() => {
+    const saved = localStorage.getItem(LLM_PROVIDER_STORAGE_KEY)
+    if (isLLMProviderId(saved)) setLlmProvider(saved)
+  }, [])
+
+  const handleProviderChange = (value: string) => {
+    if (!isLLMProviderId(value)) return
+    setLlmProvider(value)
+    localStorage.setItem(LLM_PROVIDER_STORAGE_KEY, value)
+  }
 
   const handleReset = () => {
     setTheme("system")
     setGeminiApiKey("")
+    handleProviderChange(DEFAULT_LLM_PROVIDER)
+  }
+
+  const handleCopyCalendarFeed = async () => {
+    if (!calendarFeedUrl) return
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl)
+      setCalendarMessage({ type: "success", text: "Copied. Add it to your calendar app as a subscription (\"From URL\")." })
+    } catch {
+      setCalendarMessage({ type: "error", text: "Couldn't copy; select the address and copy it manually." })
+    }
+  }
+
+  const handleResetCalendarFeed = async () => {
+    try {
+      const res = await fetch("/api/calendar/feed", { method: "POST" })
+      const data = await res.json()
+      if (!res.ok || !data.success) throw new Error(data.message || "Failed to reset calendar feed")
+      setCalendarFeedUrl(data.data.url)
+      setCalendarMessage({ type: "success", text: "New address created. Calendars using the old one will stop updating." })
+    } catch (error) {
+      setCalendarMessage({ type: "error", text: error instanceof Error ? error.message : "Failed to reset calendar feed" })
+    }
   }
 
   const handleSignOut = async () => {
@@ -98,34 +315,264 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
             </div>
 
             <div className="space-y-4 pl-6">
+              <div className="space-y-2">
+                <div className="space-y-1">
+                  <Label htmlFor="llm-provider">Model Provider</Label>
+                  <p className="text-sm text-muted-foreground break-words">Choose which AI model answers your questions</p>
+                </div>
+                <Select value={llmProvider} onValueChange={handleProviderChange}>
+                  <SelectTrigger id="llm-provider" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LLM_PROVIDERS.map((provider) => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        {provider.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-2">
                 <div className="space-y-1">
                   <Label htmlFor="gemini-api-key">Gemini API Key</Label>
-                  <p className="text-sm text-muted-foreground break-words">Enter your Gemini API key to access the features</p>
+                  <p className="text-sm text-muted-foreground break-words">Enter your Gemini API key to access the features. It is encrypted before being stored and used instead of the shared server key.</p>
                 </div>
+                {maskedApiKey && (
+                  <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-muted/50 text-sm">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <ShieldCheck className="h-4 w-4 text-green-500 flex-shrink-0" />
+                      <span className="truncate">Saved key: <span className="font-mono">{maskedApiKey}</span></span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleRemoveApiKey}
+                      disabled={apiKeyAction !== null}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50 flex-shrink-0"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      {apiKeyAction === "remove" ? "Removing..." : "Remove"}
+                    </Button>
+                  </div>
+                )}
                 <Input
                   id="gemini-api-key"
                   type="password"
-                  placeholder="Enter your Gemini API key"
+                  placeholder={maskedApiKey ? "Enter a new key to replace the saved one" : "Enter your Gemini API key"}
                   value={geminiApiKey}
                   onChange={(e) => setGeminiApiKey(e.target.value)}
                   className="w-full"
+                  autoComplete="off"
                 />
-                <div className="flex justify-end">
-                  <Button 
-                    onClick={() => {
-                      // Save API key logic here
-                      console.log("API key saved:", geminiApiKey)
-                    }}
+                {apiKeyMessage && (
+                  <p className={`text-sm break-words ${apiKeyMessage.type === "success" ? "text-green-600" : "text-red-600"}`}>
+                    {apiKeyMessage.text}
+                  </p>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={handleTestApiKey}
+                    disabled={apiKeyAction !== null || (!geminiApiKey && !maskedApiKey)}
+                  >
+                    {apiKeyAction === "test" ? "Testing..." : "Test Key"}
+                  </Button>
+                  <Button
+                    onClick={handleSaveApiKey}
+                    disabled={apiKeyAction !== null || !geminiApiKey.trim()}
                     className="bg-blue-500 hover:bg-blue-600"
                   >
-                    Save API Key
+                    {apiKeyAction === "save" ? "Saving..." : "Save API Key"}
                   </Button>
                 </div>
               </div>
             </div>
           </div>
 
+          {/* Academic Profile Section */}
+          {session?.user && (
+            <>
+              <Separator />
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <GraduationCap className="h-4 w-4 text-primary flex-shrink-0" />
+                  <h3 className="text-lg font-semibold">Profile</h3>
+                </div>
+
+                <div className="space-y-4 pl-6">
+                  <p className="text-sm text-muted-foreground break-words">
+                    UnivBot uses these details to tailor answers to your courses, exams and labs.
+                  </p>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="profile-department">Department</Label>
+                      <Input
+                        id="profile-department"
+                        placeholder="e.g. Computer Science"
+                        value={profile.department}
+                        maxLength={100}
+                        onChange={(e) => updateProfileField("department", e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="profile-program">Program</Label>
+                      <Input
+                        id="profile-program"
+                        placeholder="e.g. B.Tech"
+                        value={profile.program}
+                        maxLength={100}
+                        onChange={(e) => updateProfileField("program", e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="profile-year">Year</Label>
+                      <Select
+                        value={profile.year || "none"}
+                        onValueChange={(value) => updateProfileField("year", value === "none" ? "" : value)}
+                      >
+                        <SelectTrigger id="profile-year" className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Not set</SelectItem>
+                          {Array.from({ length: MAX_STUDY_YEAR }, (_, index) => (
+                            <SelectItem key={index + 1} value={String(index + 1)}>
+                              Year {index + 1}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="profile-student-id">Student ID</Label>
+                      <Input
+                        id="profile-student-id"
+                        placeholder="e.g. 21BCS1234"
+                        value={profile.studentId}
+                        maxLength={32}
+                        onChange={(e) => updateProfileField("studentId", e.target.value)}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="profile-course">Enrolled Courses</Label>
+                    {profile.enrolledCourses.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {profile.enrolledCourses.map((code) => (
+                          <Badge key={code} variant="secondary" className="gap-1 pr-1">
+                            {code}
+                            <button
+                              type="button"
+                              onClick={() => handleRemoveCourse(code)}
+                              className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+                              aria-label={`Remove ${code}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex gap-2">
+                      <Input
+                        id="profile-course"
+                        placeholder="Add a course code, e.g. CS101"
+                        value={courseInput}
+                        onChange={(e) => setCourseInput(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            e.preventDefault()
+                            handleAddCourse()
+                          }
+                        }}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={handleAddCourse}
+                        disabled={!courseInput.trim() || profile.enrolledCourses.length >= MAX_ENROLLED_COURSES}
+                      >
+                        Add
+                      </Button>
+                    </div>
+                  </div>
+
+                  {profileMessage && (
+                    <p className={`text-sm break-words ${profileMessage.type === "success" ? "text-green-600" : "text-red-600"}`}>
+                      {profileMessage.text}
+                    </p>
+                  )}
+                  <div className="flex justify-end">
+                    <Button onClick={handleSaveProfile} disabled={isSavingProfile} className="bg-blue-500 hover:bg-blue-600">
+                      {isSavingProfile ? "Saving..." : "Save Profile"}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Calendar Feed Section */}
+          {session?.user && (
+            <>
+              <Separator />
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <CalendarDays className="h-4 w-4 text-primary flex-shrink-0" />
+                  <h3 className="text-lg font-semibold">Calendar</h3>
+                </div>
+
+                <div className="space-y-3 pl-6">
+                  <p className="text-sm text-muted-foreground">
+                    Subscribe to your lab bookings, exams, reminders and your lecturers' office hours in Google Calendar, Outlook or Apple Calendar. Keep this address private.
+                  </p>
+                  <div className="flex gap-2">
+                    <Input
+                      readOnly
+                      value={calendarFeedUrl ?? ""}
+                      placeholder="Loading..."
+                      onFocus={(e) => e.target.select()}
+                      className="font-mono text-xs"
+                      aria-label="Calendar feed URL"
+                    />
+                    <Button variant="outline" onClick={handleCopyCalendarFeed} disabled={!calendarFeedUrl}>
+                      <Copy className="h-4 w-4 mr-2" />
+                      Copy
+                    </Button>
+                  </div>
+                  {calendarMessage && (
+                    <p className={`text-sm break-words ${calendarMessage.type === "success" ? "text-green-600" : "text-red-600"}`}>
+                      {calendarMessage.text}
+                    </p>
+                  )}
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" disabled={!calendarFeedUrl} className="px-0 h-auto text-muted-foreground">
+                        Reset address
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Reset calendar address?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Calendars subscribed to the current address will stop updating, and you'll need to add the new one to each of them.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleResetCalendarFeed} className="bg-red-600 hover:bg-red-700">
+                          Reset
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            </>
+          )}
+
           {/* User Account Section - Moved to bottom */}
           {session?.user && (
             <>
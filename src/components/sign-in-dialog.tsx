@@ -1,11 +1,13 @@
 "use client"
 
-import { useState } from "react"
-import { signIn, useSession } from "next-auth/react"
+import { useEffect, useState } from "react"
+import { getProviders, signIn, useSession, type ClientSafeProvider } from "next-auth/react"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { X, Chrome, Shield, Users, Zap } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Skeleton } from "@/components/ui/skeleton"
+import { X, Chrome, Shield, Users, Zap, Building2, Mail } from "lucide-react"
 
 interface SignInDialogProps {
   open: boolean
@@ -13,20 +15,133 @@ interface SignInDialogProps {
   nonDismissible?: boolean
 }
 
-export function SignInDialog({ open, onOpenChange, nonDismissible = false }: SignInDialogProps) {
-  const [isLoading, setIsLoading] = useState(false)
-  const { data: session } = useSession()
+interface SignInOptionsProps {
+  callbackUrl?: string
+}
 
-  const handleGoogleSignIn = async () => {
-    setIsLoading(true)
+// Provider buttons and benefits, shared by the dialog and the /auth/signin page
+export function SignInOptions({ callbackUrl = "/" }: SignInOptionsProps) {
+  const [providers, setProviders] = useState<ClientSafeProvider[] | null>(null)
+  const [pendingProvider, setPendingProvider] = useState<string | null>(null)
+  const [email, setEmail] = useState("")
+
+  // Only the providers configured on the server get a button
+  useEffect(() => {
+    getProviders()
+      .then((configured) => setProviders(Object.values(configured ?? {})))
+      .catch((error) => {
+        console.error("Failed to load sign-in providers:", error)
+        setProviders([])
+      })
+  }, [])
+
+  const handleSignIn = async (providerId: string, options: { email?: string } = {}) => {
+    setPendingProvider(providerId)
     try {
-      await signIn("google", { callbackUrl: "/" })
+      await signIn(providerId, { callbackUrl, ...options })
     } catch (error) {
       console.error("Sign in error:", error)
-      setIsLoading(false)
+      setPendingProvider(null)
     }
   }
 
+  const oauthProviders = providers?.filter((provider) => provider.type === "oauth") ?? []
+  const emailProvider = providers?.find((provider) => provider.type === "email")
+
+  return (
+    <>
+      {/* Sign In Options */}
+      <div className="space-y-4 py-4">
+        {providers === null ? (
+          <Skeleton className="h-12 w-full" />
+        ) : providers.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center break-words">
+            No sign-in methods are configured yet. Please contact the UnivBot administrators.
+          </p>
+        ) : null}
+
+        {oauthProviders.map((provider) => (
+          <Button
+            key={provider.id}
+            onClick={() => handleSignIn(provider.id)}
+            disabled={pendingProvider !== null}
+            className="w-full h-12 bg-white hover:bg-gray-50 text-gray-900 border border-gray-300 flex items-center justify-center gap-3"
+          >
+            {pendingProvider === provider.id ? (
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-gray-900"></div>
+            ) : provider.id === "google" ? (
+              <Chrome className="h-5 w-5" />
+            ) : (
+              <Building2 className="h-5 w-5" />
+            )}
+            <span className="truncate">
+              {pendingProvider === provider.id ? "Signing in..." : `Continue with ${provider.name}`}
+            </span>
+          </Button>
+        ))}
+
+        {emailProvider && (
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              if (email.trim()) handleSignIn(emailProvider.id, { email: email.trim() })
+            }}
+          >
+            {oauthProviders.length > 0 && (
+              <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                <div className="h-px flex-1 bg-border" />
+                or
+                <div className="h-px flex-1 bg-border" />
+              </div>
+            )}
+            <Input
+              type="email"
+              placeholder="you@university.edu"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="email"
+              required
+            />
+            <Button
+              type="submit"
+              disabled={pendingProvider !== null || !email.trim()}
+              className="w-full h-12 bg-blue-500 hover:bg-blue-600 flex items-center justify-center gap-3"
+            >
+              <Mail className="h-5 w-5" />
+              <span className="truncate">
+                {pendingProvider === emailProvider.id ? "Sending link..." : "Email me a sign-in link"}
+              </span>
+            </Button>
+          </form>
+        )}
+      </div>
+
+      {/* Benefits Section */}
+      <div className="space-y-3 pt-4 border-t">
+        <h4 className="font-semibold text-sm">Why sign in?</h4>
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Shield className="h-4 w-4 text-green-500 flex-shrink-0" />
+            <span className="break-words">Secure and private conversations</span>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Zap className="h-4 w-4 text-blue-500 flex-shrink-0" />
+            <span className="break-words">Faster responses with personalized context</span>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Users className="h-4 w-4 text-purple-500 flex-shrink-0" />
+            <span className="break-words">Access to your conversation history</span>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
+
+export function SignInDialog({ open, onOpenChange, nonDismissible = false }: SignInDialogProps) {
+  const { data: session } = useSession()
+
   // Close dialog if user is already signed in (unless non-dismissible)
   if (session && open && !nonDismissible) {
     onOpenChange(false)
@@ -70,41 +185,7 @@ export function SignInDialog({ open, onOpenChange, nonDismissible = false }: Sig
           Sign in to access your personalized UnivBot experience and save your conversation history.
         </DialogDescription>
 
-        {/* Sign In Options */}
-        <div className="space-y-4 py-4">
-          {/* Google Sign In Button */}
-          <Button
-            onClick={handleGoogleSignIn}
-            disabled={isLoading}
-            className="w-full h-12 bg-white hover:bg-gray-50 text-gray-900 border border-gray-300 flex items-center justify-center gap-3"
-          >
-            {isLoading ? (
-              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-gray-900"></div>
-            ) : (
-              <Chrome className="h-5 w-5" />
-            )}
-            <span className="truncate">{isLoading ? "Signing in..." : "Continue with Google"}</span>
-          </Button>
-        </div>
-
-        {/* Benefits Section */}
-        <div className="space-y-3 pt-4 border-t">
-          <h4 className="font-semibold text-sm">Why sign in?</h4>
-          <div className="space-y-2">
-            <div className="flex items-center gap-2 text-sm text-muted-foreground">
-              <Shield className="h-4 w-4 text-green-500 flex-shrink-0" />
-              <span className="break-words">Secure and private conversations</span>
-            </div>
-            <div className="flex items-center gap-2 text-sm text-muted-foreground">
-              <Zap className="h-4 w-4 text-blue-500 flex-shrink-0" />
-              <span className="break-words">Faster responses with personalized context</span>
-            </div>
-            <div className="flex items-center gap-2 text-sm text-muted-foreground">
-              <Users className="h-4 w-4 text-purple-500 flex-shrink-0" />
-              <span className="break-words">Access to your conversation history</span>
-            </div>
-          </div>
-        </div>
+        <SignInOptions />
       </DialogContent>
     </Dialog>
   )
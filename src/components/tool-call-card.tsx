@@ -0,0 +1,74 @@
+"use client"
+
+import { useState } from "react"
+import { CheckCircle2, ChevronRight, Loader2, Wrench, XCircle } from "lucide-react"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { cn } from "@/lib/utils"
+
+export type ToolCallState = "input-streaming" | "input-available" | "output-available" | "output-error"
+
+interface ToolCallCardProps {
+  toolName: string
+  state: ToolCallState
+  input: unknown
+  output?: unknown
+  errorText?: string
+}
+
+// Long results (e.g. document text) are cut down; the full result is in Past Events
+const RESULT_PREVIEW_LENGTH = 600
+
+// "searchDocuments" -> "Search documents"
+function toolLabel(toolName: string) {
+  const words = toolName.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+function preview(value: unknown) {
+  const json = JSON.stringify(value, null, 2) ?? ""
+  return json.length > RESULT_PREVIEW_LENGTH ? `${json.slice(0, RESULT_PREVIEW_LENGTH - 1)}…` : json
+}
+
+const STATUS = {
+  running: { label: "Running", icon: Loader2, className: "text-blue-500 animate-spin" },
+  succeeded: { label: "Done", icon: CheckCircle2, className: "text-green-500" },
+  failed: { label: "Failed", icon: XCircle, className: "text-red-500" },
+}
+
+export function ToolCallCard({ toolName, state, input, output, errorText }: ToolCallCardProps) {
+  const [open, setOpen] = useState(false)
+  const status =
+    state === "output-available" ? STATUS.succeeded : state === "output-error" ? STATUS.failed : STATUS.running
+  const StatusIcon = status.icon
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className="my-2 rounded-xl border border-border/50 bg-background/60 text-xs"
+    >
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-left">
+        <Wrench className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+        <span className="font-medium truncate">{toolLabel(toolName)}</span>
+        <span className="ml-auto flex items-center gap-1 text-muted-foreground flex-shrink-0">
+          <StatusIcon className={cn("h-3.5 w-3.5", status.className)} />
+          {status.label}
+        </span>
+        <ChevronRight className={cn("h-3.5 w-3.5 text-muted-foreground transition-transform", open && "rotate-90")} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 border-t border-border/50 px-3 py-2">
+        <div className="space-y-1">
+          <p className="font-semibold text-muted-foreground">Arguments</p>
+          <pre className="overflow-x-auto whitespace-pre-wrap break-words">{preview(input ?? {})}</pre>
+        </div>
+        {state === "output-available" && (
+          <div className="space-y-1">
+            <p className="font-semibold text-muted-foreground">Result</p>
+            <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-words">{preview(output)}</pre>
+          </div>
+        )}
+        {state === "output-error" && <p className="text-red-600 break-words">{errorText}</p>}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
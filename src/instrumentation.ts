@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // The edge runtime has no timers or MongoDB driver; REMINDER_SCHEDULER=off leaves dispatch to the cron route
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.REMINDER_SCHEDULER !== 'off') {
+    const { startReminderScheduler } = await import('@/lib/reminder-scheduler')
+    startReminderScheduler()
+  }
+}
@@ -0,0 +1,75 @@
+import type mongoose from 'mongoose'
+import {
+  ActivityEvent,
+  type ActivityEventStatus,
+  type ActivityEventType,
+  type IActivityEvent
+} from '@/lib/models/ActivityEvent'
+
+export interface ActivityInput {
+  userId: mongoose.Types.ObjectId
+  type: ActivityEventType
+  title: string
+  description?: string
+  status?: ActivityEventStatus
+  documentId?: mongoose.Types.ObjectId
+  toolName?: string
+  sessionId?: string
+  messageId?: string
+  payload?: Record<string, unknown>
+}
+
+export interface ActivityUpdate {
+  status: ActivityEventStatus
+  description?: string
+  // Merged into the existing payload
+  payload?: Record<string, unknown>
+}
+
+// Activity logging must never break the action being logged, so failures are only reported
+
+export async function recordActivity(input: ActivityInput): Promise<IActivityEvent | null> {
+  try {
+    return await ActivityEvent.create({
+      ...input,
+      completedAt: input.status === 'completed' || input.status === 'failed' ? new Date() : undefined
+    })
+  } catch (error) {
+    console.error('Failed to record activity:', error)
+    return null
+  }
+}
+
+export async function updateActivity(event: IActivityEvent | null, update: ActivityUpdate) {
+  if (!event) return
+
+  event.status = update.status
+  if (update.description) event.description = update.description
+  if (update.payload) event.payload = { ...event.payload, ...update.payload }
+  if (update.status === 'completed' || update.status === 'failed') event.completedAt = new Date()
+
+  try {
+    await event.save()
+  } catch (error) {
+    console.error('Failed to update activity:', error)
+  }
+}
+
+export function serializeActivityEvent(event: IActivityEvent) {
+  return {
+    id: String(event._id),
+    type: event.type,
+    status: event.status,
+    title: event.title,
+    description: event.description,
+    documentId: event.documentId ? String(event.documentId) : undefined,
+    toolName: event.toolName,
+    sessionId: event.sessionId,
+    messageId: event.messageId,
+    payload: event.payload ?? {},
+    createdAt: event.createdAt,
+    completedAt: event.completedAt
+  }
+}
+
+export type SerializedActivityEvent = ReturnType<typeof serializeActivityEvent>
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import type { Session } from 'next-auth'
+import type mongoose from 'mongoose'
+import { authOptions } from '@/lib/auth'
+import dbConnect from '@/lib/mongodb'
+import { toUserObjectId } from '@/lib/chat-history'
+import { isBootstrapAdmin } from '@/lib/sign-in-policy'
+import { User, USER_ROLES, type IUser, type UserRole } from '@/lib/models/User'
+
+type AuthFailure = { ok: false; response: NextResponse }
+
+export type SessionAuth = { ok: true; session: Session; userId: mongoose.Types.ObjectId } | AuthFailure
+export type RoleAuth = { ok: true; session: Session; userId: mongoose.Types.ObjectId; role: UserRole } | AuthFailure
+
+function failure(status: 401 | 403): AuthFailure {
+  return {
+    ok: false,
+    response: NextResponse.json(
+      { error: status === 401 ? 'Unauthorized' : 'Forbidden' },
+      { status }
+    )
+  }
+}
+
+/**
+ * Resolve the signed-in user for an API route.
+ * The session JWT outlives the account, so the user is looked up too: a deleted user gets 401.
+ * Usage: `const auth = await requireSession(); if (!auth.ok) return auth.response`
+ */
+export async function requireSession(): Promise<SessionAuth> {
+  const session = await getServerSession(authOptions)
+  const userId = toUserObjectId(session?.user?.id)
+
+  if (!session || !userId) return failure(401)
+
+  await dbConnect()
+  if (!(await User.exists({ _id: userId }))) return failure(401)
+
+  return { ok: true, session, userId }
+}
+
+// Role from the database, so changes apply without signing in again
+export async function getUserRole(userId: mongoose.Types.ObjectId, email?: string | null): Promise<UserRole> {
+  if (isBootstrapAdmin(email)) return 'admin'
+
+  await dbConnect()
+  const user = await User.findById(userId).select('role').lean<Pick<IUser, 'role'>>()
+  // Users created by the auth adapter have no role until one is assigned
+  return user?.role && USER_ROLES.includes(user.role) ? user.role : 'student'
+}
+
+/**
+ * Like requireSession, but also requires one of the given roles (403 otherwise).
+ */
+export async function requireRole(...roles: UserRole[]): Promise<RoleAuth> {
+  const auth = await requireSession()
+  if (!auth.ok) return auth
+
+  const role = await getUserRole(auth.userId, auth.session.user.email)
+  if (!roles.includes(role)) return failure(403)
+
+  return { ...auth, role }
+}
@@ -0,0 +1,4 @@
+// Public base URL for links that leave the app (emails, push notifications, calendar feeds)
+export function appUrl() {
+  return (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/+$/, '')
+}
@@ -0,0 +1,107 @@
+// Helpers shared by the custom /auth pages that authOptions.pages points to
+
+export interface AuthErrorInfo {
+  title: string
+  description: string
+  // Whether signing in again is likely to help
+  canRetry: boolean
+}
+
+const DEFAULT_AUTH_ERROR: AuthErrorInfo = {
+  title: "Unable to sign in",
+  description: "Something went wrong while signing you in. Please try again.",
+  canRetry: true,
+}
+
+// Error codes NextAuth passes as ?error=
+const AUTH_ERRORS: Record<string, AuthErrorInfo> = {
+  Configuration: {
+    title: "Sign-in is misconfigured",
+    description:
+      "The server's authentication settings are incomplete, so nobody can sign in right now. Please let the UnivBot administrators know.",
+    canRetry: false,
+  },
+  AccessDenied: {
+    title: "Access denied",
+    description: "Your account isn't allowed to use UnivBot. Make sure you're signing in with your university account.",
+    canRetry: true,
+  },
+  Verification: {
+    title: "Sign-in link expired",
+    description: "This sign-in link has already been used or has expired. Request a new one to continue.",
+    canRetry: true,
+  },
+  OAuthAccountNotLinked: {
+    title: "Account already in use",
+    description:
+      "Your email is already linked to a different sign-in method. Sign in the way you did the first time to keep your history.",
+    canRetry: true,
+  },
+  OAuthSignin: {
+    title: "Couldn't reach the sign-in provider",
+    description: "We couldn't start signing you in with that provider. Please try again in a moment.",
+    canRetry: true,
+  },
+  OAuthCallback: {
+    title: "Sign-in was interrupted",
+    description: "The provider didn't complete the sign-in. This can happen if you cancelled it or it took too long.",
+    canRetry: true,
+  },
+  OAuthCreateAccount: {
+    title: "Couldn't create your account",
+    description: "We couldn't set up your UnivBot account from that provider. Please try again.",
+    canRetry: true,
+  },
+  EmailCreateAccount: {
+    title: "Couldn't create your account",
+    description: "We couldn't set up your UnivBot account for that email address. Please try again.",
+    canRetry: true,
+  },
+  EmailSignin: {
+    title: "Couldn't send the sign-in email",
+    description: "We weren't able to email you a sign-in link. Check the address and try again.",
+    canRetry: true,
+  },
+  DomainNotAllowed: {
+    title: "Use your university account",
+    description:
+      "UnivBot is only available to university members. Sign in with your institutional email address, or ask an administrator to add an exception for your address.",
+    canRetry: true,
+  },
+  EmailNotVerified: {
+    title: "Email not verified",
+    description: "Your provider hasn't verified this email address yet. Verify it with them, then sign in again.",
+    canRetry: true,
+  },
+  Callback: DEFAULT_AUTH_ERROR,
+  SessionRequired: {
+    title: "Please sign in",
+    description: "You need to be signed in to view that page.",
+    canRetry: true,
+  },
+}
+
+export function describeAuthError(code?: string | null): AuthErrorInfo {
+  // Own keys only, so ?error=constructor can't reach Object.prototype
+  return (code && Object.hasOwn(AUTH_ERRORS, code) && AUTH_ERRORS[code]) || DEFAULT_AUTH_ERROR
+}
+
+// Placeholder origin for resolving relative paths; only the comparison matters
+const CALLBACK_BASE = "http://callback.invalid"
+
+/**
+ * Only same-origin paths, so ?callbackUrl= can't bounce users to another site.
+ * Resolving the value the way a browser would catches tricks like "/\evil.com"
+ * or embedded tabs, which browsers treat as protocol-relative URLs.
+ */
+export function safeCallbackUrl(value?: string | null) {
+  if (!value || !value.startsWith("/")) return "/"
+
+  try {
+    const url = new URL(value, CALLBACK_BASE)
+    if (url.origin !== CALLBACK_BASE) return "/"
+    return `${url.pathname}${url.search}${url.hash}`
+  } catch {
+    return "/"
+  }
+}
@@ -1,20 +1,99 @@
 import { NextAuthOptions } from "next-auth"
+import type { Provider } from "next-auth/providers/index"
 import GoogleProvider from "next-auth/providers/google"
+import EmailProvider from "next-auth/providers/email"
 import { MongoDBAdapter } from "@auth/mongodb-adapter"
-import clientPromise from "./mongodb-adapter"
+import { getMongoClient } from "./mongodb"
+import { isEmailAllowedToSignIn } from "./sign-in-policy"
+
+interface OIDCProfile {
+  sub: string
+  name?: string
+  preferred_username?: string
+  email?: string
+  // Some identity providers send this as a string
+  email_verified?: boolean | string
+  picture?: string
+}
+
+// Providers whose profile carries an OIDC email_verified claim
+const EMAIL_VERIFYING_PROVIDERS = ["google", "university-sso"]
+
+// Each provider is enabled only when its environment variables are set
+function configuredProviders() {
+  const providers: Provider[] = []
+
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    // Google's hosted-domain hint preselects the university account; the signIn callback still enforces the allowlist
+    const hostedDomain = process.env.GOOGLE_HOSTED_DOMAIN
+    providers.push(
+      GoogleProvider({
+        clientId: process.env.GOOGLE_CLIENT_ID,
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+        ...(hostedDomain && { authorization: { params: { hd: hostedDomain } } }),
+      }),
+    )
+  }
+
+  // University single sign-on through any OpenID Connect identity provider
+  if (process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID && process.env.OIDC_CLIENT_SECRET) {
+    providers.push({
+      id: "university-sso",
+      name: process.env.OIDC_PROVIDER_NAME || "University SSO",
+      type: "oauth",
+      wellKnown: `${process.env.OIDC_ISSUER.replace(/\/$/, "")}/.well-known/openid-configuration`,
+      clientId: process.env.OIDC_CLIENT_ID,
+      clientSecret: process.env.OIDC_CLIENT_SECRET,
+      authorization: { params: { scope: "openid email profile" } },
+      idToken: true,
+      checks: ["pkce", "state"],
+      profile(profile: OIDCProfile) {
+        return {
+          id: profile.sub,
+          name: profile.name ?? profile.preferred_username ?? null,
+          email: profile.email ?? null,
+          image: profile.picture ?? null,
+        }
+      },
+    })
+  }
+
+  // Magic links; verification tokens are stored by the MongoDB adapter
+  if (process.env.EMAIL_SERVER && process.env.EMAIL_FROM) {
+    providers.push(
+      EmailProvider({
+        server: process.env.EMAIL_SERVER,
+        from: process.env.EMAIL_FROM,
+      }),
+    )
+  }
+
+  return providers
+}
 
 export const authOptions: NextAuthOptions = {
-  providers: [
-    GoogleProvider({
-      clientId: process.env.GOOGLE_CLIENT_ID!,
-      clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
-    }),
-  ],
-  adapter: MongoDBAdapter(clientPromise),
+  providers: configuredProviders(),
+  // Connects lazily on first use and shares the pool with our mongoose models
+  adapter: MongoDBAdapter(getMongoClient),
   session: {
     strategy: "jwt" as const,
   },
   callbacks: {
+    async signIn({ user, account, profile }) {
+      // An unverified address could claim any domain, or be linked to someone else's account
+      const emailVerified = (profile as Pick<OIDCProfile, "email_verified"> | undefined)?.email_verified
+      if (
+        account &&
+        EMAIL_VERIFYING_PROVIDERS.includes(account.provider) &&
+        (emailVerified === false || emailVerified === "false")
+      ) {
+        return "/auth/error?error=EmailNotVerified"
+      }
+      if (!(await isEmailAllowedToSignIn(user.email))) {
+        return "/auth/error?error=DomainNotAllowed"
+      }
+      return true
+    },
     async jwt({ token, user, account }) {
       // Persist the OAuth access_token and or the user id to the token right after signin
       if (account && user) {
@@ -33,6 +112,7 @@ export const authOptions: NextAuthOptions = {
   pages: {
     signIn: "/auth/signin",
     error: "/auth/error",
+    verifyRequest: "/auth/verify-request",
   },
   secret: process.env.NEXTAUTH_SECRET,
 } 
\ No newline at end of file
@@ -0,0 +1,198 @@
+import { randomBytes } from 'crypto'
+import type mongoose from 'mongoose'
+import { Booking, type IBooking } from '@/lib/models/Booking'
+import { Lab, type ILab } from '@/lib/models/Lab'
+import { Reminder, type IReminder } from '@/lib/models/Reminder'
+import { Faculty, type IFaculty, type IOfficeHours } from '@/lib/models/Faculty'
+import type { IExamSlot } from '@/lib/models/ExamSlot'
+import type { IActivityEvent } from '@/lib/models/ActivityEvent'
+import { User, type IUser } from '@/lib/models/User'
+import { addDaysToDateString, localDateString, zonedTime } from '@/lib/campus-time'
+import { buildIcs, type CalendarEvent } from '@/lib/ics'
+import { findExams } from '@/lib/exams'
+import { courseCodeRegex } from '@/lib/profile-schema'
+import { getStudentProfile } from '@/lib/user-profile'
+import { appUrl } from '@/lib/app-url'
+
+// Recently finished and cancelled items stay in the feed a while, so calendars pick up late changes
+const FEED_HISTORY_DAYS = 30
+const REMINDER_EVENT_MINUTES = 15
+
+// UIDs must be globally unique, so they are qualified with the app's host
+function uid(kind: string, id: string) {
+  return `${kind}-${id}@${new URL(appUrl()).hostname}`
+}
+
+/**
+ * The secret token in the user's calendar feed URL, created on first use.
+ * Rotating it breaks existing subscriptions, e.g. after the URL was shared by mistake.
+ */
+export async function getCalendarFeedToken(userId: mongoose.Types.ObjectId, { rotate = false } = {}) {
+  const token = randomBytes(24).toString('base64url')
+  if (rotate) {
+    await User.updateOne({ _id: userId }, { $set: { calendarFeedToken: token } })
+    return token
+  }
+
+  // Only the first of two concurrent requests sets a token; both return whichever one was stored
+  await User.updateOne(
+    { _id: userId, calendarFeedToken: { $exists: false } },
+    { $set: { calendarFeedToken: token } }
+  )
+  const user = await User.findById(userId).select('+calendarFeedToken').lean<Pick<IUser, 'calendarFeedToken'>>()
+  if (!user?.calendarFeedToken) throw new Error('User not found')
+  return user.calendarFeedToken
+}
+
+export function calendarFeedUrl(token: string) {
+  return `${appUrl()}/api/calendar/${token}.ics`
+}
+
+export async function findUserByCalendarToken(token: string) {
+  if (!/^[A-Za-z0-9_-]{20,64}$/.test(token)) return null
+  return User.findOne({ calendarFeedToken: token }).select('_id').lean<{ _id: mongoose.Types.ObjectId }>()
+}
+
+function bookingEvent(booking: IBooking, lab?: Pick<ILab, 'name' | 'code' | 'location'>): CalendarEvent {
+  return {
+    uid: uid('booking', String(booking._id)),
+    start: booking.start,
+    end: booking.end,
+    summary: `Lab booking: ${lab?.name ?? 'Lab'}`,
+    description: booking.purpose,
+    location: lab?.location,
+    status: booking.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    categories: ['Lab booking'],
+    lastModified: booking.updatedAt,
+    alarmMinutesBefore: 30
+  }
+}
+
+function examEvent(exam: IExamSlot): CalendarEvent {
+  const title = exam.title ?? 'Exam'
+  const compact = (value: string) => value.replace(/[\s-]+/g, '').toUpperCase()
+  return {
+    uid: uid('exam', String(exam._id)),
+    start: exam.start,
+    end: exam.end,
+    // Imported titles often already name the course, e.g. "CS101 Final Exam"
+    summary: compact(title).includes(compact(exam.courseCode)) ? title : `${exam.courseCode} ${title}`,
+    description: exam.notes,
+    location: exam.location,
+    categories: ['Exam', exam.courseCode],
+    lastModified: exam.updatedAt,
+    alarmMinutesBefore: 24 * 60
+  }
+}
+
+function reminderEvent(reminder: IReminder): CalendarEvent {
+  return {
+    uid: uid('reminder', String(reminder._id)),
+    start: reminder.remindAt,
+    end: new Date(reminder.remindAt.getTime() + REMINDER_EVENT_MINUTES * 60 * 1000),
+    summary: reminder.title,
+    description: reminder.notes,
+    status: reminder.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    categories: ['Reminder'],
+    lastModified: reminder.updatedAt,
+    alarmMinutesBefore: 0
+  }
+}
+
+// Weekly from the first matching day after the entry was last changed, so the start stays put between imports
+function officeHoursEvent(faculty: IFaculty, slot: IOfficeHours): CalendarEvent {
+  const anchor = localDateString(faculty.updatedAt)
+  const anchorDay = new Date(`${anchor}T00:00:00Z`).getUTCDay()
+  const date = addDaysToDateString(anchor, (slot.day - anchorDay + 7) % 7)
+
+  return {
+    uid: uid('office-hours', `${faculty._id}-${slot.day}-${slot.start.replace(':', '')}`),
+    start: zonedTime(date, slot.start),
+    end: zonedTime(date, slot.end),
+    summary: `Office hours: ${faculty.name}`,
+    description: [faculty.courses.join(', '), faculty.email].filter(Boolean).join('\n'),
+    location: slot.location ?? faculty.office,
+    categories: ['Office hours'],
+    lastModified: faculty.updatedAt,
+    weekly: true
+  }
+}
+
+/**
+ * Everything UnivBot knows is on the user's calendar: lab bookings, exams for their enrolled courses,
+ * reminders, and office hours of the faculty teaching those courses.
+ */
+export async function buildUserCalendar(userId: mongoose.Types.ObjectId, now = new Date()) {
+  const since = new Date(now.getTime() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000)
+  const { enrolledCourses } = await getStudentProfile(userId)
+
+  const [bookings, exams, reminders, faculty] = await Promise.all([
+    Booking.find({ userId, end: { $gt: since } }).sort({ start: 1 }).lean<IBooking[]>(),
+    findExams(enrolledCourses, { now: since }),
+    Reminder.find({ userId, remindAt: { $gt: since }, status: { $ne: 'failed' } }).sort({ remindAt: 1 }).lean<IReminder[]>(),
+    enrolledCourses.length > 0
+      ? Faculty.find({ courses: { $in: enrolledCourses.map(courseCodeRegex) } }).lean<IFaculty[]>()
+      : Promise.resolve([])
+  ])
+
+  const labs = await Lab.find({ _id: { $in: bookings.map((booking) => booking.labId) } })
+    .select('name code location')
+    .lean<ILab[]>()
+  const labsById = new Map(labs.map((lab) => [String(lab._id), lab]))
+
+  return buildIcs({
+    name: 'UnivBot',
+    now,
+    events: [
+      ...bookings.map((booking) => bookingEvent(booking, labsById.get(String(booking.labId)))),
+      ...exams.map(examEvent),
+      ...reminders.map(reminderEvent),
+      ...faculty.flatMap((person) => person.officeHours.map((slot) => officeHoursEvent(person, slot)))
+    ]
+  })
+}
+
+function resultId(event: IActivityEvent, key: 'booking' | 'reminder') {
+  const result = event.payload?.result as Record<string, { id?: unknown } | undefined> | undefined
+  const id = result?.[key]?.id
+  return typeof id === 'string' ? id : null
+}
+
+/**
+ * A single Past Events entry as a calendar file. Tool calls that booked a lab or set a reminder export
+ * that booking or reminder, with the same UID as the feed so the two don't duplicate each other;
+ * anything else exports the activity itself.
+ */
+export async function buildActivityCalendar(event: IActivityEvent) {
+  const bookingId = event.toolName === 'bookLab' ? resultId(event, 'booking') : null
+  const reminderId = event.toolName === 'createReminder' ? resultId(event, 'reminder') : null
+  let calendarEvent: CalendarEvent | null = null
+
+  if (bookingId) {
+    const booking = await Booking.findOne({ _id: bookingId, userId: event.userId }).lean<IBooking>()
+    const lab = booking && (await Lab.findById(booking.labId).select('name code location').lean<ILab>())
+    if (booking) calendarEvent = bookingEvent(booking, lab ?? undefined)
+  } else if (reminderId) {
+    const reminder = await Reminder.findOne({ _id: reminderId, userId: event.userId }).lean<IReminder>()
+    if (reminder) calendarEvent = reminderEvent(reminder)
+  }
+
+  const end = event.completedAt && event.completedAt > event.createdAt
+    ? event.completedAt
+    : new Date(event.createdAt.getTime() + REMINDER_EVENT_MINUTES * 60 * 1000)
+
+  return buildIcs({
+    name: event.title,
+    events: [
+      calendarEvent ?? {
+        uid: uid('activity', String(event._id)),
+        start: event.createdAt,
+        end,
+        summary: event.title,
+        description: event.description,
+        categories: [event.type],
+        lastModified: event.updatedAt
+      }
+    ]
+  })
+}
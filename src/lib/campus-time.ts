@@ -0,0 +1,66 @@
+import { TZDate } from '@date-fns/tz'
+import { format } from 'date-fns'
+
+// Opening hours, exam slots and reminders are wall-clock times on campus
+export const CAMPUS_TIME_ZONE = process.env.CAMPUS_TIME_ZONE || 'UTC'
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+export function isDateString(value: string) {
+  return DATE_PATTERN.test(value)
+}
+
+export function isTimeString(value: string) {
+  return TIME_PATTERN.test(value)
+}
+
+/** "HH:mm" as minutes after midnight. */
+export function minutesOfDay(time: string) {
+  const match = TIME_PATTERN.exec(time)
+  if (!match) throw new Error(`Invalid time "${time}"`)
+  return Number(match[1]) * 60 + Number(match[2])
+}
+
+/**
+ * The instant a wall-clock date ("YYYY-MM-DD") and time ("HH:mm", or minutes after midnight)
+ * occur in a time zone.
+ */
+export function zonedTime(date: string, time: string | number, timeZone = CAMPUS_TIME_ZONE) {
+  const match = DATE_PATTERN.exec(date)
+  if (!match) throw new Error(`Invalid date "${date}"`)
+  const minutes = typeof time === 'number' ? time : minutesOfDay(time)
+
+  return new Date(
+    new TZDate(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 0, minutes, timeZone).getTime()
+  )
+}
+
+/** A date viewed on the wall clock of a time zone, for formatting or reading the local day. */
+export function inTimeZone(date: Date, timeZone = CAMPUS_TIME_ZONE) {
+  return new TZDate(date.getTime(), timeZone)
+}
+
+// "YYYY-MM-DD" of the local day an instant falls on
+export function localDateString(date: Date, timeZone = CAMPUS_TIME_ZONE) {
+  return format(inTimeZone(date, timeZone), 'yyyy-MM-dd')
+}
+
+// Shift a "YYYY-MM-DD" string by whole days
+export function addDaysToDateString(date: string, days: number) {
+  const shifted = new Date(`${date}T00:00:00Z`)
+  shifted.setUTCDate(shifted.getUTCDate() + days)
+  return shifted.toISOString().slice(0, 10)
+}
+
+// An instant as read on the local wall clock, e.g. "Thu 2026-10-22 15:00", for the model to quote
+export function describeLocalTime(date: Date, timeZone = CAMPUS_TIME_ZONE) {
+  return format(inTimeZone(date, timeZone), 'EEE yyyy-MM-dd HH:mm')
+}
+
+/** A range on the local wall clock, e.g. "Thu 2026-10-22 15:00–16:00". */
+export function describeTimeRange(start: Date, end: Date, timeZone = CAMPUS_TIME_ZONE) {
+  const sameDay = localDateString(start, timeZone) === localDateString(end, timeZone)
+  const endText = sameDay ? format(inTimeZone(end, timeZone), 'HH:mm') : describeLocalTime(end, timeZone)
+  return `${describeLocalTime(start, timeZone)}–${endText}`
+}
@@ -0,0 +1,93 @@
+import mongoose from 'mongoose'
+import type { UIMessage } from 'ai'
+import { Chat, type IChat, type IMessage } from '@/lib/models/Chat'
+
+// Session user ids come from the adapter's users collection, so they are ObjectId strings
+export function toUserObjectId(id: string | undefined) {
+  return id && mongoose.isValidObjectId(id) ? new mongoose.Types.ObjectId(id) : null
+}
+
+export function messageText(message: UIMessage) {
+  return message.parts
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .join('')
+}
+
+const TITLE_LENGTH = 60
+
+// Default conversation title: the opening question, trimmed to fit the sidebar
+export function titleFromText(text: string) {
+  const singleLine = text.replace(/\s+/g, ' ').trim()
+  return singleLine.length > TITLE_LENGTH
+    ? `${singleLine.slice(0, TITLE_LENGTH - 1).trimEnd()}…`
+    : singleLine
+}
+
+// Tool calls and attachments are worth keeping even when the turn has no text
+function hasReplayableParts(message: UIMessage) {
+  return message.parts.some((part) =>
+    part.type === 'text'
+      ? part.text.trim().length > 0
+      : part.type === 'file' || part.type === 'dynamic-tool' || part.type.startsWith('tool-')
+  )
+}
+
+function toStoredMessage(message: UIMessage): IMessage {
+  return {
+    messageId: message.id,
+    role: message.role === 'user' ? 'user' : 'assistant',
+    content: messageText(message),
+    parts: message.parts,
+    metadata: message.metadata as IMessage['metadata'],
+    timestamp: new Date()
+  }
+}
+
+/**
+ * Append UI messages to the user's chat for a session, creating it on first use.
+ * Messages already stored under the same id are skipped, so retries don't duplicate turns.
+ */
+export async function appendChatMessages(
+  userId: mongoose.Types.ObjectId,
+  sessionId: string,
+  messages: UIMessage[]
+) {
+  const chat = await Chat.findOne({ sessionId, userId }).select('messages.messageId')
+  const storedIds = new Set<string>(
+    (chat?.messages ?? []).map((message: IMessage) => message.messageId)
+  )
+
+  const fresh = messages
+    .filter((message) => message.role !== 'system' && !storedIds.has(message.id))
+    // Empty assistant turns (e.g. an aborted stream) have nothing worth replaying
+    .filter(hasReplayableParts)
+    .map(toStoredMessage)
+
+  if (fresh.length === 0) return
+
+  const firstQuestion = fresh.find(
+    (message) => message.role === 'user' && message.content.trim().length > 0
+  )
+
+  await Chat.updateOne(
+    { sessionId, userId },
+    // The filter fields seed the document when the upsert inserts
+    {
+      $push: { messages: { $each: fresh } },
+      ...(firstQuestion && { $setOnInsert: { title: titleFromText(firstQuestion.content) } })
+    },
+    { upsert: true }
+  )
+}
+
+// Convert a stored chat back into the shape useChat expects
+export function toUIMessages(chat: Pick<IChat, 'messages'>): UIMessage[] {
+  return chat.messages.map((message, index) => ({
+    id: message.messageId || `${message.role}-${index}`,
+    role: message.role,
+    parts: (message.parts as UIMessage['parts'] | undefined) ?? [
+      { type: 'text', text: message.content }
+    ],
+    metadata: message.metadata
+  }))
+}
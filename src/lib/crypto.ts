@@ -0,0 +1,49 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+
+const ALGORITHM = 'aes-256-gcm'
+const IV_LENGTH = 12
+const VERSION = 'v1'
+
+// 256-bit key derived from the server secret; never stored anywhere
+function encryptionKey() {
+  const secret = process.env.API_KEY_ENCRYPTION_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('Please define API_KEY_ENCRYPTION_SECRET (or NEXTAUTH_SECRET) to store API keys')
+  }
+  return createHash('sha256').update(secret).digest()
+}
+
+/**
+ * Encrypt a secret with AES-256-GCM.
+ * Output is "v1:<iv>:<auth tag>:<ciphertext>", all base64, so it fits in a string field.
+ */
+export function encryptSecret(plaintext: string) {
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  const tag = cipher.getAuthTag()
+
+  return [VERSION, iv, tag, ciphertext].map((part) =>
+    typeof part === 'string' ? part : part.toString('base64')
+  ).join(':')
+}
+
+// Throws if the payload was tampered with or encrypted under a different secret
+export function decryptSecret(payload: string) {
+  const [version, iv, tag, ciphertext] = payload.split(':')
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognised encrypted payload')
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, encryptionKey(), Buffer.from(iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(tag, 'base64'))
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final()
+  ]).toString('utf8')
+}
+
+// Show only the last few characters of a secret
+export function maskSecret(suffix: string) {
+  return `••••••••${suffix}`
+}
@@ -0,0 +1,75 @@
+// Minimal RFC 4180 reader for admin imports: quoted fields, escaped quotes, CRLF and embedded newlines
+
+export interface CsvRow {
+  // 1-based line of the row in the file, for error messages
+  line: number
+  values: Record<string, string>
+}
+
+function parseRecords(text: string) {
+  const records: { line: number; fields: string[] }[] = []
+  let fields: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      fields.push(field)
+      records.push({ line: recordLine, fields })
+      fields = []
+      field = ''
+      line++
+      recordLine = line
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) throw new Error(`Unterminated quoted field starting on line ${recordLine}`)
+  if (field !== '' || fields.length > 0) {
+    fields.push(field)
+    records.push({ line: recordLine, fields })
+  }
+
+  // Blank lines carry no data
+  return records.filter((record) => record.fields.some((value) => value.trim() !== ''))
+}
+
+/**
+ * Parse CSV text with a header row into rows keyed by header.
+ * Headers are matched case-insensitively, with spaces and dashes read as underscores ("Office Hours" → "office_hours").
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const [header, ...records] = parseRecords(text.replace(/^\uFEFF/, ''))
+  if (!header) return []
+
+  const keys = header.fields.map((name) => name.trim().toLowerCase().replace(/[\s-]+/g, '_'))
+
+  return records.map((record) => ({
+    line: record.line,
+    values: Object.fromEntries(keys.map((key, i) => [key, (record.fields[i] ?? '').trim()]))
+  }))
+}
@@ -0,0 +1,63 @@
+import type { ExtractedText } from './extract'
+
+export interface TextChunk {
+  index: number
+  text: string
+  page?: number
+  start: number
+  end: number
+}
+
+export interface ChunkOptions {
+  chunkSize?: number
+  overlap?: number
+}
+
+const DEFAULT_CHUNK_SIZE = 1000
+const DEFAULT_OVERLAP = 200
+
+// Prefer to cut at a paragraph, then a sentence, then a word boundary
+function findBreak(text: string, from: number, to: number) {
+  const window = text.slice(from, to)
+  const minimum = Math.floor(window.length * 0.6)
+
+  for (const pattern of ['\n\n', '. ', '\n', ' ']) {
+    const position = window.lastIndexOf(pattern)
+    if (position >= minimum) return from + position + pattern.length
+  }
+  return to
+}
+
+/**
+ * Split extracted text into overlapping chunks.
+ * Chunks never span pages, so each one can be cited with a single page number.
+ */
+export function chunkText(extracted: ExtractedText, options: ChunkOptions = {}): TextChunk[] {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+  const overlap = Math.min(options.overlap ?? DEFAULT_OVERLAP, Math.floor(chunkSize / 2))
+  const chunks: TextChunk[] = []
+
+  extracted.pages.forEach((pageText, pageIndex) => {
+    let start = 0
+    while (start < pageText.length) {
+      const limit = Math.min(start + chunkSize, pageText.length)
+      const end = limit === pageText.length ? limit : findBreak(pageText, start, limit)
+      const text = pageText.slice(start, end).trim()
+
+      if (text) {
+        chunks.push({
+          index: chunks.length,
+          text,
+          page: extracted.paginated ? pageIndex + 1 : undefined,
+          start,
+          end
+        })
+      }
+
+      if (end >= pageText.length) break
+      start = Math.max(end - overlap, start + 1)
+    }
+  })
+
+  return chunks
+}
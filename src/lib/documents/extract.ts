@@ -0,0 +1,26 @@
+import mammoth from 'mammoth'
+import { extractText as extractPdfText, getDocumentProxy } from 'unpdf'
+import type { DocumentKind } from './file-types'
+
+export interface ExtractedText {
+  // One entry per page for paginated formats, otherwise a single entry
+  pages: string[]
+  paginated: boolean
+}
+
+export async function extractText(buffer: Buffer, kind: DocumentKind): Promise<ExtractedText> {
+  switch (kind) {
+    case 'pdf': {
+      const pdf = await getDocumentProxy(new Uint8Array(buffer))
+      const { text } = await extractPdfText(pdf, { mergePages: false })
+      return { pages: text, paginated: true }
+    }
+    case 'docx': {
+      const { value } = await mammoth.extractRawText({ buffer })
+      return { pages: [value], paginated: false }
+    }
+    case 'markdown':
+    case 'text':
+      return { pages: [buffer.toString('utf-8')], paginated: false }
+  }
+}
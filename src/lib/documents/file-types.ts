@@ -0,0 +1,40 @@
+// Upload constraints shared by the documents API and the client file picker.
+// Kept free of parser imports so it can be bundled into client components.
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024 // 10 MB
+
+export type DocumentKind = 'pdf' | 'docx' | 'markdown' | 'text'
+
+const KINDS_BY_MIME_TYPE: Record<string, DocumentKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/plain': 'text'
+}
+
+const KINDS_BY_EXTENSION: Record<string, DocumentKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text'
+}
+
+// Value for the file input's accept attribute
+export const ACCEPTED_FILE_TYPES = [
+  ...Object.keys(KINDS_BY_MIME_TYPE),
+  ...Object.keys(KINDS_BY_EXTENSION).map((extension) => `.${extension}`)
+].join(',')
+
+/**
+ * Work out how to parse an upload.
+ * Browsers often send an empty or generic type for Markdown, so the extension is a fallback.
+ */
+export function detectDocumentKind(mimeType: string, fileName: string): DocumentKind | null {
+  const byMimeType = KINDS_BY_MIME_TYPE[mimeType]
+  if (byMimeType) return byMimeType
+
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? ''
+  return KINDS_BY_EXTENSION[extension] ?? null
+}
@@ -0,0 +1,4 @@
+export * from './chunk'
+export * from './extract'
+export * from './file-types'
+export * from './ingest'
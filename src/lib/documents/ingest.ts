@@ -0,0 +1,120 @@
+import type mongoose from 'mongoose'
+import { Document, type IDocument } from '@/lib/models/Document'
+import { DocumentChunk, type IDocumentChunk } from '@/lib/models/DocumentChunk'
+import { getVectorStore } from '@/lib/rag'
+import { recordActivity, updateActivity } from '@/lib/activity'
+import { saveFile } from '@/lib/storage'
+import { chunkText } from './chunk'
+import { extractText } from './extract'
+import type { DocumentKind } from './file-types'
+
+/**
+ * Store the original file, record a Document for it and run the ingestion pipeline.
+ * Extraction failures are recorded on the document rather than thrown,
+ * so the caller always gets back a document with a final status.
+ */
+export async function uploadDocument(
+  userId: mongoose.Types.ObjectId,
+  file: File,
+  kind: DocumentKind
+): Promise<IDocument> {
+  const buffer = Buffer.from(await file.arrayBuffer())
+  const fileId = await saveFile(buffer, file.name, { userId, mimeType: file.type })
+
+  const document: IDocument = await Document.create({
+    userId,
+    fileName: file.name,
+    mimeType: file.type || 'application/octet-stream',
+    size: file.size,
+    fileId
+  })
+
+  return processDocument(document, buffer, kind)
+}
+
+export async function processDocument(document: IDocument, buffer: Buffer, kind: DocumentKind) {
+  document.status = 'processing'
+  await document.save()
+
+  const activity = await recordActivity({
+    userId: document.userId,
+    type: 'Document',
+    status: 'processing',
+    title: 'Document Processing',
+    description: `Processing ${document.fileName}`,
+    documentId: document._id as mongoose.Types.ObjectId,
+    payload: {
+      fileName: document.fileName,
+      fileSize: document.size,
+      mimeType: document.mimeType
+    }
+  })
+
+  const vectorStore = getVectorStore()
+  try {
+    const extracted = await extractText(buffer, kind)
+    const chunks = chunkText(extracted)
+    if (chunks.length === 0) {
+      throw new Error('No text could be extracted from this file')
+    }
+
+    // Re-processing replaces any chunks from an earlier attempt
+    await DocumentChunk.deleteMany({ documentId: document._id })
+    await vectorStore.deleteDocument(String(document._id))
+
+    const storedChunks: IDocumentChunk[] = await DocumentChunk.insertMany(
+      chunks.map((chunk) => ({ ...chunk, documentId: document._id, userId: document.userId }))
+    )
+
+    // Index the chunks for retrieval; the metadata is what citations are built from
+    await vectorStore.add(
+      storedChunks.map((chunk) => ({
+        id: String(chunk._id),
+        userId: document.userId.toString(),
+        documentId: String(document._id),
+        text: chunk.text,
+        metadata: {
+          fileName: document.fileName,
+          index: chunk.index,
+          page: chunk.page,
+          start: chunk.start,
+          end: chunk.end
+        }
+      }))
+    )
+
+    document.status = 'completed'
+    document.error = undefined
+    document.pageCount = extracted.paginated ? extracted.pages.length : undefined
+    document.chunkCount = chunks.length
+    document.processedAt = new Date()
+  } catch (error) {
+    console.error(`Failed to process document ${document._id}:`, error)
+    document.status = 'failed'
+    document.error = error instanceof Error ? error.message : 'Unknown error'
+
+    // Retrieval doesn't check document status, so a partial index would still be cited
+    await Promise.all([
+      DocumentChunk.deleteMany({ documentId: document._id }),
+      vectorStore.deleteDocument(String(document._id))
+    ]).catch((cleanupError) => {
+      console.error(`Failed to clean up document ${document._id}:`, cleanupError)
+    })
+  }
+
+  await document.save()
+
+  await updateActivity(activity, document.status === 'completed'
+    ? {
+        status: 'completed',
+        description: `Uploaded and processed ${document.fileName}`,
+        payload: { pageCount: document.pageCount, chunkCount: document.chunkCount }
+      }
+    : {
+        status: 'failed',
+        description: `Could not process ${document.fileName}`,
+        payload: { error: document.error }
+      })
+
+  return document
+}
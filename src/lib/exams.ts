@@ -0,0 +1,231 @@
+import mongoose from 'mongoose'
+import { z } from 'zod'
+import { ExamSlot, type IExamSlot } from '@/lib/models/ExamSlot'
+import { courseCodeRegex, courseCodeSchema } from '@/lib/profile-schema'
+import { getStudentProfile } from '@/lib/user-profile'
+import { isDateString, isTimeString, zonedTime } from '@/lib/campus-time'
+import { parseCsv } from '@/lib/csv'
+import { parseIcs, type IcsEvent } from '@/lib/ics'
+import { ImportValidationError, parseImportFile } from '@/lib/import-upload'
+
+export const MAX_IMPORT_ROWS = 2000
+
+const optionalCell = z
+  .string()
+  .trim()
+  .max(200)
+  .transform((value) => value || undefined)
+
+// One CSV row; times are campus wall-clock and the end may be given as a duration instead
+const examRowSchema = z
+  .object({
+    course: courseCodeSchema,
+    title: optionalCell,
+    date: z.string().trim().refine(isDateString, 'Date must be YYYY-MM-DD'),
+    start: z.string().trim().refine(isTimeString, 'Start must be HH:mm'),
+    end: z.string().trim().optional(),
+    duration_minutes: z.string().trim().optional(),
+    location: optionalCell,
+    term: optionalCell,
+    notes: optionalCell
+  })
+  .transform((row, ctx) => {
+    const start = zonedTime(row.date, row.start)
+    let end: Date | undefined
+    if (row.end) {
+      if (!isTimeString(row.end)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'End must be HH:mm' })
+        return z.NEVER
+      }
+      end = zonedTime(row.date, row.end)
+    } else if (row.duration_minutes && Number(row.duration_minutes) > 0) {
+      end = new Date(start.getTime() + Number(row.duration_minutes) * 60 * 1000)
+    }
+
+    if (!end || end <= start) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Give an end time after the start, or a duration_minutes' })
+      return z.NEVER
+    }
+
+    return {
+      courseCode: row.course,
+      title: row.title,
+      start,
+      end,
+      location: row.location,
+      term: row.term,
+      notes: row.notes
+    }
+  })
+
+type ExamFields = Pick<IExamSlot, 'courseCode' | 'title' | 'start' | 'end' | 'location' | 'term' | 'notes'>
+
+const COURSE_CODE_IN_TEXT = /\b([A-Z]{2,6}[ -]?\d{2,4}[A-Z]?)\b/
+
+// The course comes from CATEGORIES when the calendar sets it, otherwise from the summary ("CS101 Final Exam")
+function examFromEvent(event: IcsEvent): ExamFields {
+  const candidates = [...event.categories, COURSE_CODE_IN_TEXT.exec(event.summary ?? '')?.[1]]
+  const courseCode = candidates
+    .map((candidate) => candidate && courseCodeSchema.safeParse(candidate))
+    .find((parsed) => parsed && parsed.success && COURSE_CODE_IN_TEXT.test(parsed.data))
+
+  if (!courseCode || !courseCode.success) {
+    throw new Error(`Can't find a course code in "${event.summary ?? 'untitled event'}"`)
+  }
+
+  return {
+    courseCode: courseCode.data,
+    title: event.summary,
+    start: event.start,
+    end: event.end,
+    location: event.location,
+    notes: event.description
+  }
+}
+
+export interface ExamImportResult {
+  created: number
+  updated: number
+  // Rows or events that were skipped, with the line they start on
+  errors: { line: number; message: string }[]
+}
+
+/**
+ * Calendar events keep their UID when rescheduled. CSV rows have no id, so they are identified by
+ * course, term and title, which stay the same when an exam moves; null also matches a missing field.
+ */
+function csvExamKey(exam: ExamFields) {
+  return { courseCode: exam.courseCode, term: exam.term ?? null, title: exam.title ?? null, sourceUid: { $exists: false } }
+}
+
+async function upsertExams(
+  exams: { exam: ExamFields; uid?: string }[],
+  source: IExamSlot['source'],
+  errors: ExamImportResult['errors']
+): Promise<ExamImportResult> {
+  if (exams.length === 0) return { created: 0, updated: 0, errors }
+
+  const operations: mongoose.AnyBulkWriteOperation<IExamSlot>[] = exams.map(({ exam, uid }) => ({
+    updateOne: {
+      filter: uid ? { sourceUid: uid } : csvExamKey(exam),
+      update: { $set: { ...exam, source } },
+      upsert: true
+    }
+  }))
+
+  const result = await ExamSlot.bulkWrite(operations, { ordered: false })
+  return { created: result.upsertedCount, updated: result.matchedCount, errors }
+}
+
+/**
+ * Create or update exam slots from CSV with the columns
+ * course, title, date, start, end (or duration_minutes), location, term, notes.
+ */
+export async function importExamsCsv(text: string) {
+  const rows = parseImportFile(() => parseCsv(text))
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportValidationError(`Import at most ${MAX_IMPORT_ROWS} rows at a time`)
+  }
+
+  const errors: ExamImportResult['errors'] = []
+  const exams: { exam: ExamFields }[] = []
+  // Line of the first row for each key, so a repeated exam isn't silently overwritten
+  const seen = new Map<string, number>()
+  for (const row of rows) {
+    const parsed = examRowSchema.safeParse(row.values)
+    if (!parsed.success) {
+      errors.push({ line: row.line, message: parsed.error.issues.map((issue) => issue.message).join('; ') })
+      continue
+    }
+
+    const key = JSON.stringify(csvExamKey(parsed.data))
+    const firstLine = seen.get(key)
+    if (firstLine !== undefined) {
+      errors.push({ line: row.line, message: `Same course, term and title as line ${firstLine}; give each exam a distinct title` })
+      continue
+    }
+    seen.set(key, row.line)
+    exams.push({ exam: parsed.data })
+  }
+
+  return upsertExams(exams, 'csv', errors)
+}
+
+/** Create or update exam slots from the events of an iCalendar file. */
+export async function importExamsIcs(text: string) {
+  const { events, errors } = parseImportFile(() => parseIcs(text))
+  if (events.length > MAX_IMPORT_ROWS) {
+    throw new ImportValidationError(`Import at most ${MAX_IMPORT_ROWS} events at a time`)
+  }
+
+  const exams: { exam: ExamFields; uid?: string }[] = []
+  for (const event of events) {
+    try {
+      exams.push({ exam: examFromEvent(event), uid: event.uid })
+    } catch (error) {
+      errors.push({ line: event.line, message: (error as Error).message })
+    }
+  }
+
+  return upsertExams(exams, 'ics', errors)
+}
+
+export interface ExamConflict {
+  first: IExamSlot
+  second: IExamSlot
+}
+
+/** Pairs of exams whose times overlap; touching end-to-start is not a conflict. */
+export function findExamConflicts(exams: IExamSlot[]): ExamConflict[] {
+  const sorted = [...exams].sort((a, b) => a.start.getTime() - b.start.getTime())
+  const conflicts: ExamConflict[] = []
+
+  sorted.forEach((first, i) => {
+    for (const second of sorted.slice(i + 1)) {
+      if (second.start >= first.end) break
+      conflicts.push({ first, second })
+    }
+  })
+  return conflicts
+}
+
+/** Exams for any of the given course codes, soonest first. */
+export async function findExams(courses: string[], { includePast = false, now = new Date() } = {}) {
+  if (courses.length === 0) return []
+
+  const filter: mongoose.FilterQuery<IExamSlot> = { courseCode: { $in: courses.map(courseCodeRegex) } }
+  if (!includePast) filter.end = { $gt: now }
+
+  return ExamSlot.find(filter).sort({ start: 1 }).limit(200).lean<IExamSlot[]>()
+}
+
+/**
+ * The student's exam timetable: exams for their enrolled courses, any overlaps between them,
+ * and enrolled courses with nothing scheduled yet.
+ */
+export async function getStudentExams(userId: mongoose.Types.ObjectId, options: { includePast?: boolean } = {}) {
+  const { enrolledCourses } = await getStudentProfile(userId)
+  const exams = await findExams(enrolledCourses, options)
+
+  return {
+    enrolledCourses,
+    exams,
+    conflicts: findExamConflicts(exams),
+    unscheduledCourses: enrolledCourses.filter(
+      (course) => !exams.some((exam) => courseCodeRegex(course).test(exam.courseCode))
+    )
+  }
+}
+
+export function serializeExam(exam: IExamSlot) {
+  return {
+    id: String(exam._id),
+    courseCode: exam.courseCode,
+    title: exam.title,
+    start: exam.start,
+    end: exam.end,
+    location: exam.location,
+    term: exam.term,
+    notes: exam.notes
+  }
+}
@@ -0,0 +1,175 @@
+import mongoose from 'mongoose'
+import { z } from 'zod'
+import { Faculty, type IFaculty, type IOfficeHours } from '@/lib/models/Faculty'
+import { courseCodeRegex, courseCodeSchema } from '@/lib/profile-schema'
+import { parseCsv } from '@/lib/csv'
+import { ImportValidationError, parseImportFile } from '@/lib/import-upload'
+import { escapeRegExp } from '@/lib/utils'
+
+export const MAX_IMPORT_ROWS = 2000
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+function padTime(time: string) {
+  return time.padStart(5, '0')
+}
+
+const OFFICE_HOURS_PATTERN =
+  /^(sun|mon|tue|wed|thu|fri|sat)[a-z]*\.?\s+(\d{1,2}:[0-5]\d)\s*[-–]\s*(\d{1,2}:[0-5]\d)(?:\s*\((.+)\))?$/i
+
+/**
+ * Parse an office-hours cell such as "Mon 14:00-16:00; Thu 10:00-11:00 (Zoom)".
+ * Entries are separated by semicolons; an optional location follows in parentheses.
+ */
+export function parseOfficeHours(text: string): IOfficeHours[] {
+  return text
+    .split(/[;\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = OFFICE_HOURS_PATTERN.exec(entry)
+      const start = match && padTime(match[2])
+      const end = match && padTime(match[3])
+      if (!match || !start || !end || start >= end || start > '23:59' || end > '23:59') {
+        throw new Error(`Can't read office hours "${entry}"; use e.g. "Mon 14:00-16:00 (Room 3.12)"`)
+      }
+
+      return {
+        day: DAY_NAMES.findIndex((day) => day.toLowerCase() === match[1].toLowerCase()),
+        start,
+        end,
+        location: match[4]?.trim() || undefined
+      }
+    })
+}
+
+// e.g. "Mon 14:00–16:00, Thu 10:00–11:00 (Zoom)"
+export function formatOfficeHours(hours: IOfficeHours[]) {
+  return [...hours]
+    .sort((a, b) => a.day - b.day || a.start.localeCompare(b.start))
+    .map((slot) => `${DAY_NAMES[slot.day]} ${slot.start}–${slot.end}${slot.location ? ` (${slot.location})` : ''}`)
+    .join(', ')
+}
+
+const optionalCell = z
+  .string()
+  .trim()
+  .max(200)
+  .transform((value) => value || undefined)
+
+// One CSV row; list cells use semicolons since commas separate columns
+const facultyRowSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  title: optionalCell,
+  department: z.string().trim().min(1, 'Department is required').max(100),
+  email: z.string().trim().toLowerCase().email('Email is invalid'),
+  phone: optionalCell,
+  office: optionalCell,
+  office_hours: z
+    .string()
+    .default('')
+    .transform((value, ctx) => {
+      try {
+        return parseOfficeHours(value)
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message })
+        return z.NEVER
+      }
+    }),
+  courses: z
+    .string()
+    .default('')
+    .transform((value) => value.split(/[;|]/).map((code) => code.trim()).filter(Boolean))
+    .pipe(z.array(courseCodeSchema).max(50))
+    .transform((codes) => Array.from(new Set(codes)))
+})
+
+export interface FacultyImportResult {
+  created: number
+  updated: number
+  // Rows that were skipped, with the CSV line they came from
+  errors: { line: number; message: string }[]
+}
+
+/**
+ * Create or update faculty from CSV with the columns
+ * name, title, department, email, phone, office, office_hours, courses.
+ * Rows are matched on email, so re-importing a corrected sheet updates people in place.
+ */
+export async function importFacultyCsv(text: string): Promise<FacultyImportResult> {
+  const rows = parseImportFile(() => parseCsv(text))
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportValidationError(`Import at most ${MAX_IMPORT_ROWS} rows at a time`)
+  }
+
+  const errors: FacultyImportResult['errors'] = []
+  const operations: mongoose.AnyBulkWriteOperation<IFaculty>[] = []
+
+  for (const row of rows) {
+    const parsed = facultyRowSchema.safeParse(row.values)
+    if (!parsed.success) {
+      errors.push({ line: row.line, message: parsed.error.issues.map((issue) => issue.message).join('; ') })
+      continue
+    }
+
+    const { office_hours: officeHours, ...fields } = parsed.data
+    const unset = (['title', 'phone', 'office'] as const).filter((field) => fields[field] === undefined)
+
+    operations.push({
+      updateOne: {
+        filter: { email: fields.email },
+        update: {
+          $set: { ...fields, officeHours },
+          ...(unset.length > 0 && { $unset: Object.fromEntries(unset.map((field) => [field, ''])) })
+        },
+        upsert: true
+      }
+    })
+  }
+
+  if (operations.length === 0) return { created: 0, updated: 0, errors }
+
+  const result = await Faculty.bulkWrite(operations, { ordered: false })
+  return { created: result.upsertedCount, updated: result.matchedCount, errors }
+}
+
+interface FacultySearch {
+  query?: string
+  course?: string
+  department?: string
+  limit?: number
+}
+
+/** Faculty matching free text (name, email, department, office or course) and optional exact filters. */
+export async function searchFaculty({ query, course, department, limit = 20 }: FacultySearch) {
+  const filter: mongoose.FilterQuery<IFaculty> = {}
+
+  if (course?.trim()) filter.courses = courseCodeRegex(course.trim())
+  if (department?.trim()) filter.department = new RegExp(escapeRegExp(department.trim()), 'i')
+  if (query?.trim()) {
+    const pattern = new RegExp(escapeRegExp(query.trim()), 'i')
+    filter.$or = [
+      { name: pattern },
+      { email: pattern },
+      { department: pattern },
+      { office: pattern },
+      { courses: courseCodeRegex(query.trim()) }
+    ]
+  }
+
+  return Faculty.find(filter).sort({ name: 1 }).limit(limit).lean<IFaculty[]>()
+}
+
+export function serializeFaculty(faculty: IFaculty) {
+  return {
+    id: String(faculty._id),
+    name: faculty.name,
+    title: faculty.title,
+    department: faculty.department,
+    email: faculty.email,
+    phone: faculty.phone,
+    office: faculty.office,
+    officeHours: faculty.officeHours,
+    courses: faculty.courses
+  }
+}
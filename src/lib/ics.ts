@@ -0,0 +1,371 @@
+import { format } from 'date-fns'
+import { CAMPUS_TIME_ZONE, inTimeZone, zonedTime } from '@/lib/campus-time'
+
+// Just enough of RFC 5545 to read exam timetables exported from university calendars,
+// and to write the feeds students subscribe to
+
+export interface IcsEvent {
+  // 1-based line of BEGIN:VEVENT, for error messages
+  line: number
+  uid?: string
+  summary?: string
+  description?: string
+  location?: string
+  categories: string[]
+  start: Date
+  end: Date
+  allDay: boolean
+}
+
+interface IcsProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+// Long lines are folded onto continuation lines that start with a space or tab
+function unfold(text: string) {
+  const lines: { line: number; text: string }[] = []
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (/^[ \t]/.test(raw) && lines.length > 0) {
+      lines[lines.length - 1].text += raw.slice(1)
+    } else if (raw.trim()) {
+      lines.push({ line: i + 1, text: raw })
+    }
+  })
+  return lines
+}
+
+function parseProperty(text: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter
+  let quoted = false
+  let colon = -1
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') quoted = !quoted
+    else if (text[i] === ':' && !quoted) {
+      colon = i
+      break
+    }
+  }
+  if (colon < 0) return null
+
+  const [name, ...paramList] = text.slice(0, colon).split(';')
+  const params = Object.fromEntries(
+    paramList.map((param) => {
+      const [key, ...value] = param.split('=')
+      return [key.toUpperCase(), value.join('=').replace(/^"|"$/g, '')]
+    })
+  )
+  return { name: name.toUpperCase(), params, value: text.slice(colon + 1) }
+}
+
+function unescapeText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char))
+}
+
+function isTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// DATE or DATE-TIME in UTC ("Z"), a TZID zone, or floating time read in the calendar's zone
+function parseDateValue(property: IcsProperty, defaultTimeZone: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(property.value.trim())
+  if (!match) throw new Error(`Can't read ${property.name} "${property.value}"`)
+
+  const [, year, month, day, hour, minute, second, utc] = match
+  const date = `${year}-${month}-${day}`
+  if (hour === undefined) return { date: zonedTime(date, 0, defaultTimeZone), allDay: true }
+  if (utc) {
+    return { date: new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)), allDay: false }
+  }
+
+  const timeZone = property.params.TZID || defaultTimeZone
+  if (!isTimeZone(timeZone)) throw new Error(`Unknown time zone "${timeZone}"`)
+  return { date: zonedTime(date, `${hour}:${minute}`, timeZone), allDay: false }
+}
+
+function parseDurationMs(value: string) {
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim())
+  if (!match) throw new Error(`Can't read DURATION "${value}"`)
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map((part) => Number(part ?? 0))
+  return ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000
+}
+
+/**
+ * Read the VEVENTs of an iCalendar file. Events that can't be read are reported in `errors`
+ * rather than failing the whole file; recurrence rules are not expanded.
+ */
+export function parseIcs(text: string) {
+  const lines = unfold(text.replace(/^\uFEFF/, ''))
+  if (!lines[0]?.text.toUpperCase().startsWith('BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar file')
+  }
+
+  const events: IcsEvent[] = []
+  const errors: { line: number; message: string }[] = []
+  let calendarTimeZone = CAMPUS_TIME_ZONE
+  let current: { line: number; properties: IcsProperty[] } | null = null
+  // VALARMs and other components nested in an event don't describe the event itself
+  let nestedDepth = 0
+
+  for (const { line, text: content } of lines) {
+    const property = parseProperty(content)
+    if (!property) continue
+
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      current = { line, properties: [] }
+    } else if (current && property.name === 'BEGIN') {
+      nestedDepth++
+    } else if (current && property.name === 'END' && nestedDepth > 0) {
+      nestedDepth--
+    } else if (current && property.name === 'END' && property.value.toUpperCase() === 'VEVENT') {
+      try {
+        events.push(toEvent(current.line, current.properties, calendarTimeZone))
+      } catch (error) {
+        errors.push({ line: current.line, message: (error as Error).message })
+      }
+      current = null
+    } else if (current && nestedDepth === 0) {
+      current.properties.push(property)
+    } else if (!current && property.name === 'X-WR-TIMEZONE' && isTimeZone(property.value.trim())) {
+      calendarTimeZone = property.value.trim()
+    }
+  }
+
+  return { events, errors }
+}
+
+function toEvent(line: number, properties: IcsProperty[], timeZone: string): IcsEvent {
+  const find = (name: string) => properties.find((property) => property.name === name)
+  const text = (name: string) => {
+    const property = find(name)
+    return property ? unescapeText(property.value).trim() || undefined : undefined
+  }
+
+  const dtstart = find('DTSTART')
+  if (!dtstart) throw new Error('Event has no DTSTART')
+  const start = parseDateValue(dtstart, timeZone)
+
+  const dtend = find('DTEND')
+  const duration = find('DURATION')
+  let end: Date
+  if (dtend) {
+    end = parseDateValue(dtend, timeZone).date
+  } else if (duration) {
+    end = new Date(start.date.getTime() + parseDurationMs(duration.value))
+  } else if (start.allDay) {
+    end = new Date(start.date.getTime() + 24 * 60 * 60 * 1000)
+  } else {
+    throw new Error('Event has no DTEND or DURATION')
+  }
+  if (end <= start.date) throw new Error('Event ends before it starts')
+
+  return {
+    line,
+    uid: text('UID'),
+    summary: text('SUMMARY'),
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    categories: properties
+      .filter((property) => property.name === 'CATEGORIES')
+      .flatMap((property) => property.value.split(/(?<!\\),/).map(unescapeText))
+      .map((category) => category.trim())
+      .filter(Boolean),
+    start: start.date,
+    end,
+    allDay: start.allDay
+  }
+}
+
+// Writing: feeds and one-off exports for calendar apps
+
+export interface CalendarEvent {
+  // Stable across exports so calendar apps update the event instead of duplicating it
+  uid: string
+  start: Date
+  end: Date
+  summary: string
+  description?: string
+  location?: string
+  url?: string
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED'
+  categories?: string[]
+  lastModified?: Date
+  // Repeats every week at the same local time, e.g. office hours
+  weekly?: boolean
+  // Notify this many minutes before the start
+  alarmMinutesBefore?: number
+}
+
+interface CalendarOptions {
+  name: string
+  events: CalendarEvent[]
+  // Event times are written as local times in this zone, with its VTIMEZONE definition
+  timeZone?: string
+  now?: Date
+}
+
+const PRODUCT_ID = '-//UnivBot//Campus Calendar//EN'
+// How often subscribed calendars should refetch the feed
+const REFRESH_INTERVAL = 'PT1H'
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+// Content lines are folded at 75 octets, continuing with a leading space
+function foldLine(line: string) {
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char)
+    const limit = parts.length === 0 ? 75 : 74
+    if (currentBytes + bytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += bytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function utcStamp(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function localStamp(date: Date, timeZone: string) {
+  return format(inTimeZone(date, timeZone), "yyyyMMdd'T'HHmmss")
+}
+
+// Minutes east of UTC in effect at an instant
+function utcOffsetMinutes(date: Date, timeZone: string) {
+  return -inTimeZone(date, timeZone).getTimezoneOffset()
+}
+
+function formatOffset(minutes: number) {
+  const sign = minutes < 0 ? '-' : '+'
+  const absolute = Math.abs(minutes)
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`
+}
+
+// Instants in [from, to) where the zone's UTC offset changes, found day by day then to the minute
+function offsetTransitions(timeZone: string, from: Date, to: Date) {
+  const DAY = 24 * 60 * 60 * 1000
+  const MINUTE = 60 * 1000
+  const transitions: { at: Date; from: number; to: number }[] = []
+
+  for (let time = from.getTime(); time < to.getTime(); time += DAY) {
+    const before = utcOffsetMinutes(new Date(time), timeZone)
+    const after = utcOffsetMinutes(new Date(time + DAY), timeZone)
+    if (before === after) continue
+
+    let low = time
+    let high = time + DAY
+    while (high - low > MINUTE) {
+      const middle = low + Math.floor((high - low) / 2 / MINUTE) * MINUTE
+      if (utcOffsetMinutes(new Date(middle), timeZone) === before) low = middle
+      else high = middle
+    }
+    transitions.push({ at: new Date(high), from: before, to: after })
+  }
+  return transitions
+}
+
+/**
+ * VTIMEZONE for the years the events span, with each offset change listed explicitly
+ * rather than as recurrence rules, which works for any IANA zone.
+ */
+function timeZoneComponent(timeZone: string, from: Date, to: Date) {
+  const start = new Date(Date.UTC(from.getUTCFullYear(), 0, 1))
+  const end = new Date(Date.UTC(to.getUTCFullYear() + 1, 0, 1))
+  const initial = utcOffsetMinutes(start, timeZone)
+  const transitions = offsetTransitions(timeZone, start, end)
+  // The smallest offset in the range is standard time; anything above it is daylight saving
+  const standard = Math.min(initial, ...transitions.map((transition) => transition.to))
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`]
+  lines.push(
+    `BEGIN:${initial === standard ? 'STANDARD' : 'DAYLIGHT'}`,
+    `DTSTART:${localStamp(start, timeZone)}`,
+    `TZOFFSETFROM:${formatOffset(initial)}`,
+    `TZOFFSETTO:${formatOffset(initial)}`,
+    `END:${initial === standard ? 'STANDARD' : 'DAYLIGHT'}`
+  )
+  for (const transition of transitions) {
+    const kind = transition.to === standard ? 'STANDARD' : 'DAYLIGHT'
+    // DTSTART is the local time just before the change, in the offset being left
+    const localBefore = new Date(transition.at.getTime() + transition.from * 60 * 1000)
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${localBefore.toISOString().replace(/[-:]/g, '').slice(0, 15)}`,
+      `TZOFFSETFROM:${formatOffset(transition.from)}`,
+      `TZOFFSETTO:${formatOffset(transition.to)}`,
+      `END:${kind}`
+    )
+  }
+  lines.push('END:VTIMEZONE')
+  return lines
+}
+
+function eventComponent(event: CalendarEvent, timeZone: string, now: Date) {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${utcStamp(now)}`,
+    `DTSTART;TZID=${timeZone}:${localStamp(event.start, timeZone)}`,
+    `DTEND;TZID=${timeZone}:${localStamp(event.end, timeZone)}`,
+    `SUMMARY:${escapeText(event.summary)}`
+  ]
+  if (event.weekly) lines.push('RRULE:FREQ=WEEKLY')
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.url) lines.push(`URL:${event.url}`)
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`)
+  lines.push(`STATUS:${event.status ?? 'CONFIRMED'}`)
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${utcStamp(event.lastModified)}`)
+  if (event.alarmMinutesBefore !== undefined && event.status !== 'CANCELLED') {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.summary)}`,
+      `TRIGGER:-PT${event.alarmMinutesBefore}M`,
+      'END:VALARM'
+    )
+  }
+  lines.push('END:VEVENT')
+  return lines
+}
+
+/** An RFC 5545 VCALENDAR with CRLF line endings, ready to serve as text/calendar. */
+export function buildIcs({ name, events, timeZone = CAMPUS_TIME_ZONE, now = new Date() }: CalendarOptions) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`
+  ]
+
+  if (events.length > 0) {
+    const starts = events.map((event) => event.start.getTime())
+    const ends = events.map((event) => (event.weekly ? now.getTime() + 365 * 24 * 60 * 60 * 1000 : event.end.getTime()))
+    lines.push(...timeZoneComponent(timeZone, new Date(Math.min(...starts)), new Date(Math.max(...ends))))
+  }
+  for (const event of events) lines.push(...eventComponent(event, timeZone, now))
+  lines.push('END:VCALENDAR')
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server'
+
+export const MAX_IMPORT_BYTES = 2 * 1024 * 1024
+
+export type ImportFormat = 'csv' | 'ics'
+
+type ImportUpload = { ok: true; text: string; format: ImportFormat } | { ok: false; response: NextResponse }
+
+// A problem with the uploaded file itself, reported to the admin as a 400; anything else is a server error
+export class ImportValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportValidationError'
+  }
+}
+
+/** Run a file parser such as parseCsv, reporting what it can't read as an ImportValidationError. */
+export function parseImportFile<T>(parse: () => T): T {
+  try {
+    return parse()
+  } catch (error) {
+    throw new ImportValidationError(error instanceof Error ? error.message : 'The file could not be read')
+  }
+}
+
+const FORMAT_LABELS: Record<ImportFormat, string> = { csv: 'CSV', ics: 'iCalendar (.ics)' }
+
+function reject(message: string, status: number): ImportUpload {
+  return { ok: false, response: NextResponse.json({ success: false, message }, { status }) }
+}
+
+// From the file name or content type, falling back to sniffing the content
+function detectFormat(text: string, typeOrName: string): ImportFormat {
+  if (/calendar|\.ics$/i.test(typeOrName)) return 'ics'
+  if (/csv|\.csv$/i.test(typeOrName)) return 'csv'
+  return text.trimStart().startsWith('BEGIN:VCALENDAR') ? 'ics' : 'csv'
+}
+
+/**
+ * Read an admin import from a multipart "file" field or a raw text body (text/csv, text/calendar or text/plain).
+ * Rejects formats the route doesn't accept.
+ */
+export async function readImportUpload(request: Request, accepted: ImportFormat[]): Promise<ImportUpload> {
+  const contentType = request.headers.get('content-type') ?? ''
+  const maxMb = MAX_IMPORT_BYTES / (1024 * 1024)
+
+  let text: string
+  let typeOrName: string
+  if (contentType.startsWith('multipart/form-data')) {
+    const file = (await request.formData()).get('file')
+    if (!(file instanceof File)) return reject('A file is required', 400)
+    if (file.size > MAX_IMPORT_BYTES) return reject(`${file.name} is larger than ${maxMb} MB`, 413)
+    text = await file.text()
+    typeOrName = `${file.type} ${file.name}`
+  } else if (/^text\/(csv|calendar|plain)/.test(contentType)) {
+    text = await request.text()
+    if (text.length > MAX_IMPORT_BYTES) return reject(`The upload is larger than ${maxMb} MB`, 413)
+    typeOrName = contentType
+  } else {
+    return reject('Upload a file as multipart/form-data or send it as a text body', 415)
+  }
+
+  if (!text.trim()) return reject('The upload is empty', 400)
+
+  const format = detectFormat(text, typeOrName)
+  if (!accepted.includes(format)) {
+    return reject(`Expected ${accepted.map((f) => FORMAT_LABELS[f]).join(' or ')}`, 415)
+  }
+  return { ok: true, text, format }
+}
@@ -0,0 +1,275 @@
+import mongoose from 'mongoose'
+import { z } from 'zod'
+import { Lab, type ILab } from '@/lib/models/Lab'
+import { Booking, type IBooking } from '@/lib/models/Booking'
+import { User } from '@/lib/models/User'
+import {
+  CAMPUS_TIME_ZONE,
+  addDaysToDateString,
+  isTimeString,
+  localDateString,
+  minutesOfDay,
+  zonedTime
+} from '@/lib/campus-time'
+import { escapeRegExp } from '@/lib/utils'
+
+export const MAX_BOOKING_SLOTS = 4
+// How far ahead to look for alternatives when a slot is taken
+const ALTERNATIVE_SEARCH_DAYS = 7
+
+export type BookingErrorCode = 'invalid' | 'closed' | 'full' | 'conflict'
+
+// Expected booking failures; routes turn these into 400/409 responses and the chat tool into alternatives
+export class BookingError extends Error {
+  constructor(public code: BookingErrorCode, message: string) {
+    super(message)
+    this.name = 'BookingError'
+  }
+}
+
+const openingHoursSchema = z
+  .object({
+    day: z.number().int().min(0).max(6),
+    open: z.string().refine(isTimeString, 'Times must be HH:mm'),
+    close: z.string().refine(isTimeString, 'Times must be HH:mm')
+  })
+  .refine((hours) => minutesOfDay(hours.open) < minutesOfDay(hours.close), 'Opening time must be before closing time')
+
+export const labInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  code: z.string().trim().min(1).max(32),
+  location: z.string().trim().max(200).optional(),
+  description: z.string().trim().max(500).optional(),
+  capacity: z.number().int().min(1).max(500),
+  openingHours: z.array(openingHoursSchema).max(21),
+  slotMinutes: z.number().int().min(15).max(240).default(60),
+  timeZone: z
+    .string()
+    .default(CAMPUS_TIME_ZONE)
+    .refine((timeZone) => {
+      try {
+        new Intl.DateTimeFormat('en', { timeZone })
+        return true
+      } catch {
+        return false
+      }
+    }, 'Unknown time zone')
+})
+
+export interface TimeRange {
+  start: Date
+  end: Date
+}
+
+export interface LabSlot extends TimeRange {
+  booked: number
+  available: number
+}
+
+function dayOfWeek(date: string) {
+  return new Date(`${date}T00:00:00Z`).getUTCDay()
+}
+
+function overlapCount(bookings: TimeRange[], range: TimeRange) {
+  return bookings.filter((booking) => booking.start < range.end && booking.end > range.start).length
+}
+
+// Bookable slots for one local day, before bookings are counted
+function slotGrid(lab: ILab, date: string): TimeRange[] {
+  const day = dayOfWeek(date)
+
+  return lab.openingHours
+    .filter((hours) => hours.day === day)
+    .flatMap((hours) => {
+      const slots: TimeRange[] = []
+      const close = minutesOfDay(hours.close)
+      for (let minute = minutesOfDay(hours.open); minute + lab.slotMinutes <= close; minute += lab.slotMinutes) {
+        slots.push({
+          start: zonedTime(date, minute, lab.timeZone),
+          end: zonedTime(date, minute + lab.slotMinutes, lab.timeZone)
+        })
+      }
+      return slots
+    })
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+async function confirmedBookings(labId: unknown, range: TimeRange, session?: mongoose.ClientSession) {
+  return Booking.find({
+    labId,
+    status: 'confirmed',
+    start: { $lt: range.end },
+    end: { $gt: range.start }
+  })
+    .select('start end')
+    .session(session ?? null)
+    .lean<TimeRange[]>()
+}
+
+/** Upcoming slots on a local day ("YYYY-MM-DD") with how many places are left in each. */
+export async function getLabAvailability(lab: ILab, date: string, now = new Date()): Promise<LabSlot[]> {
+  const grid = slotGrid(lab, date).filter((slot) => slot.start > now)
+  if (grid.length === 0) return []
+
+  const bookings = await confirmedBookings(lab._id, { start: grid[0].start, end: grid[grid.length - 1].end })
+
+  return grid.map((slot) => {
+    const booked = overlapCount(bookings, slot)
+    return { ...slot, booked, available: Math.max(0, lab.capacity - booked) }
+  })
+}
+
+// Grid slots covering a booking that starts on a slot boundary, or null if the lab is closed for part of it
+function slotsForRange(lab: ILab, start: Date, slotCount: number) {
+  const grid = slotGrid(lab, localDateString(start, lab.timeZone))
+  const first = grid.findIndex((slot) => slot.start.getTime() === start.getTime())
+  if (first < 0) return null
+
+  const slots = grid.slice(first, first + slotCount)
+  const contiguous = slots.every((slot, i) => i === 0 || slots[i - 1].end.getTime() === slot.start.getTime())
+  return slots.length === slotCount && contiguous ? slots : null
+}
+
+/**
+ * Free ranges of the same length near a requested start, closest first.
+ * Searches the requested day and the following week.
+ */
+export async function findAlternativeSlots(lab: ILab, around: Date, slotCount = 1, limit = 3, now = new Date()) {
+  const firstDay = localDateString(around, lab.timeZone)
+  const candidates: TimeRange[] = []
+
+  for (let offset = 0; offset < ALTERNATIVE_SEARCH_DAYS && candidates.length < limit; offset++) {
+    const slots = await getLabAvailability(lab, addDaysToDateString(firstDay, offset), now)
+    for (let i = 0; i + slotCount <= slots.length; i++) {
+      const range = slots.slice(i, i + slotCount)
+      const contiguous = range.every((slot, j) => j === 0 || range[j - 1].end.getTime() === slot.start.getTime())
+      if (contiguous && range.every((slot) => slot.available > 0)) {
+        candidates.push({ start: range[0].start, end: range[range.length - 1].end })
+      }
+    }
+  }
+
+  const distance = (range: TimeRange) => Math.abs(range.start.getTime() - around.getTime())
+  return candidates.sort((a, b) => distance(a) - distance(b)).slice(0, limit)
+}
+
+interface BookLabInput {
+  lab: ILab
+  userId: mongoose.Types.ObjectId
+  start: Date
+  slotCount?: number
+  purpose?: string
+  now?: Date
+}
+
+/**
+ * Book consecutive slots in a lab.
+ * Runs in a transaction that also bumps the lab's and the user's bookingVersion, so two concurrent
+ * bookings for the same lab, or by the same user in different labs, write-conflict and the loser
+ * retries against the winner's booking: capacity and double-booking checks can't both pass.
+ * Requires a replica set, as Atlas provides.
+ */
+export async function bookLab({ lab, userId, start, slotCount = 1, purpose, now = new Date() }: BookLabInput) {
+  if (!Number.isInteger(slotCount) || slotCount < 1 || slotCount > MAX_BOOKING_SLOTS) {
+    throw new BookingError('invalid', `You can book between 1 and ${MAX_BOOKING_SLOTS} consecutive slots`)
+  }
+  if (start <= now) {
+    throw new BookingError('invalid', 'That time has already passed')
+  }
+
+  const slots = slotsForRange(lab, start, slotCount)
+  if (!slots) {
+    throw new BookingError(
+      'closed',
+      `${lab.name} isn't open for that whole time, or it doesn't start on a ${lab.slotMinutes}-minute slot boundary`
+    )
+  }
+  const range = { start, end: slots[slots.length - 1].end }
+
+  const session = await mongoose.startSession()
+  try {
+    let booking: IBooking | undefined
+    await session.withTransaction(async () => {
+      await Lab.updateOne({ _id: lab._id }, { $inc: { bookingVersion: 1 } }, { session })
+      await User.updateOne({ _id: userId }, { $inc: { bookingVersion: 1 } }, { session })
+
+      const ownBooking = await Booking.exists({
+        userId,
+        status: 'confirmed',
+        start: { $lt: range.end },
+        end: { $gt: range.start }
+      }).session(session)
+      if (ownBooking) {
+        throw new BookingError('conflict', 'You already have a lab booked at that time')
+      }
+
+      const existing = await confirmedBookings(lab._id, range, session)
+      if (slots.some((slot) => overlapCount(existing, slot) >= lab.capacity)) {
+        throw new BookingError('full', `${lab.name} is fully booked at that time`)
+      }
+
+      const [created] = await Booking.create(
+        [{ labId: lab._id, userId, start: range.start, end: range.end, purpose }],
+        { session }
+      )
+      booking = created
+    })
+    return booking as IBooking
+  } finally {
+    await session.endSession()
+  }
+}
+
+/** Cancel one of the user's upcoming bookings. Returns null if there is no such booking. */
+export async function cancelBooking(bookingId: string, userId: mongoose.Types.ObjectId, now = new Date()) {
+  if (!mongoose.isValidObjectId(bookingId)) return null
+
+  return Booking.findOneAndUpdate(
+    { _id: bookingId, userId, status: 'confirmed', end: { $gt: now } },
+    { $set: { status: 'cancelled', cancelledAt: now } },
+    { new: true }
+  ).lean<IBooking>()
+}
+
+/** An active lab by id, code or (partial) name, e.g. "physics" or "PHY-101". */
+export async function findLab(reference: string) {
+  if (mongoose.isValidObjectId(reference)) {
+    const lab = await Lab.findOne({ _id: reference, isActive: true }).lean<ILab>()
+    if (lab) return lab
+  }
+
+  return Lab.findOne({
+    isActive: true,
+    $or: [
+      { code: reference.trim().toUpperCase() },
+      { name: { $regex: escapeRegExp(reference.trim()), $options: 'i' } }
+    ]
+  }).lean<ILab>()
+}
+
+export function serializeLab(lab: ILab) {
+  return {
+    id: String(lab._id),
+    name: lab.name,
+    code: lab.code,
+    location: lab.location,
+    description: lab.description,
+    capacity: lab.capacity,
+    openingHours: lab.openingHours,
+    slotMinutes: lab.slotMinutes,
+    timeZone: lab.timeZone
+  }
+}
+
+export function serializeBooking(booking: IBooking, lab?: Pick<ILab, 'name' | 'code' | 'location'> | null) {
+  return {
+    id: String(booking._id),
+    labId: String(booking.labId),
+    lab: lab ? { name: lab.name, code: lab.code, location: lab.location } : undefined,
+    start: booking.start,
+    end: booking.end,
+    status: booking.status,
+    purpose: booking.purpose,
+    createdAt: booking.createdAt
+  }
+}
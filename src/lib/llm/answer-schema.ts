@@ -0,0 +1,36 @@
+import { z } from "zod"
+
+// Shared with the client, so this file must stay free of server-only imports
+
+export const ANSWER_CATEGORIES = [
+  "exams",
+  "labs",
+  "faculty",
+  "facilities",
+  "courses",
+  "administration",
+  "general",
+] as const
+
+export type AnswerCategory = (typeof ANSWER_CATEGORIES)[number]
+
+export const structuredAnswerSchema = z.object({
+  answer: z.string().describe("The reply shown to the student"),
+  category: z.enum(ANSWER_CATEGORIES).describe("The campus topic the question is about"),
+  confidence: z.number().min(0).max(1).describe("How confident the answer is, from 0 (guess) to 1 (certain)"),
+  sources: z
+    .array(z.string())
+    .max(5)
+    .describe("Documents or resources the answer relies on, e.g. uploaded file names; empty if none"),
+  followUps: z
+    .array(z.string())
+    .max(3)
+    .describe("Short questions the student is likely to ask next, written in their voice"),
+})
+
+export type StructuredAnswer = z.infer<typeof structuredAnswerSchema>
+
+// The answer body streams as text; the remaining fields are generated once it is complete
+export const answerDetailsSchema = structuredAnswerSchema.omit({ answer: true })
+
+export type AnswerDetails = z.infer<typeof answerDetailsSchema>
@@ -0,0 +1,48 @@
+import { generateObject, type LanguageModel } from "ai"
+import { answerDetailsSchema, type AnswerDetails } from "./answer-schema"
+import type { ContextExcerpt } from "./prompts"
+
+interface AnswerDetailsInput {
+  model: LanguageModel
+  question: string
+  answer: string
+  excerpts?: ContextExcerpt[]
+}
+
+const ANSWER_DETAILS_PROMPT = `You annotate answers from UnivBot, a university campus assistant.
+Given a student's question and UnivBot's answer, classify the answer, rate how well supported it is,
+list the documents it relied on and suggest up to three natural follow-up questions the student might ask next.`
+
+/**
+ * Structured details (category, confidence, sources, follow-ups) for a finished answer.
+ * Generated after streaming so the answer itself still arrives token by token, and so tool
+ * calls, which some providers can't combine with JSON output, keep working.
+ * Returns null on failure: the answer is still useful without them.
+ */
+export async function generateAnswerDetails({
+  model,
+  question,
+  answer,
+  excerpts = [],
+}: AnswerDetailsInput): Promise<AnswerDetails | null> {
+  if (!answer.trim()) return null
+
+  const documents = Array.from(new Set(excerpts.map((excerpt) => excerpt.fileName)))
+
+  try {
+    const { object } = await generateObject({
+      model,
+      schema: answerDetailsSchema,
+      system: ANSWER_DETAILS_PROMPT,
+      prompt: [
+        `Question:\n${question}`,
+        `Answer:\n${answer}`,
+        documents.length > 0 ? `Documents provided as context:\n${documents.join("\n")}` : "No documents were provided as context.",
+      ].join("\n\n"),
+    })
+    return object
+  } catch (error) {
+    console.error("Failed to generate answer details:", error)
+    return null
+  }
+}
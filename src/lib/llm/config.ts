@@ -0,0 +1,19 @@
+// Provider identifiers shared by the chat route and the client settings UI.
+// Kept free of SDK imports so it can be bundled into client components.
+
+export const LLM_PROVIDERS = [
+  { id: "gemini", label: "Google Gemini", defaultModel: "gemini-2.0-flash" },
+  { id: "openai", label: "OpenAI", defaultModel: "gpt-4o" },
+  { id: "mock", label: "Offline mock", defaultModel: "univbot-mock" },
+] as const
+
+export type LLMProviderId = (typeof LLM_PROVIDERS)[number]["id"]
+
+export const DEFAULT_LLM_PROVIDER: LLMProviderId = "gemini"
+
+// localStorage key used by SettingsDialog to remember the user's choice
+export const LLM_PROVIDER_STORAGE_KEY = "univbot-llm-provider"
+
+export function isLLMProviderId(value: unknown): value is LLMProviderId {
+  return LLM_PROVIDERS.some((provider) => provider.id === value)
+}
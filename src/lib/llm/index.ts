@@ -0,0 +1,128 @@
+import { createGoogleGenerativeAI } from "@ai-sdk/google"
+import { createOpenAI } from "@ai-sdk/openai"
+import type { LanguageModel } from "ai"
+import { createMockModel } from "./mock"
+import {
+  DEFAULT_LLM_PROVIDER,
+  LLM_PROVIDERS,
+  isLLMProviderId,
+  type LLMProviderId,
+} from "./config"
+
+export * from "./config"
+
+export interface ModelOptions {
+  // Overrides the server key for this call
+  apiKey?: string
+  modelId?: string
+}
+
+// Per-provider model override, e.g. GEMINI_MODEL=gemini-1.5-pro
+function serverModelId(provider: LLMProviderId) {
+  switch (provider) {
+    case "gemini":
+      return process.env.GEMINI_MODEL
+    case "openai":
+      return process.env.OPENAI_MODEL
+    case "mock":
+      return undefined
+  }
+}
+
+// Server-side API key for a provider, if one is configured
+function serverApiKey(provider: LLMProviderId) {
+  switch (provider) {
+    case "gemini":
+      return process.env.GOOGLE_GENERATIVE_AI_API_KEY || process.env.GEMINI_API_KEY
+    case "openai":
+      return process.env.OPENAI_API_KEY
+    case "mock":
+      return undefined
+  }
+}
+
+// The offline mock is for development and tests; production needs ENABLE_MOCK_LLM=true to use it
+export function isMockProviderEnabled() {
+  return process.env.NODE_ENV !== "production" || process.env.ENABLE_MOCK_LLM === "true"
+}
+
+export function isProviderConfigured(provider: LLMProviderId) {
+  if (provider === "mock") return isMockProviderEnabled()
+  return !!serverApiKey(provider)
+}
+
+/**
+ * Pick the provider for a request.
+ * Order of precedence: the user's setting, then LLM_PROVIDER, then Gemini.
+ * An unknown value, or the mock when it is disabled, falls through to the next candidate.
+ */
+export function resolveProvider(preferred?: unknown): LLMProviderId {
+  if (isSelectableProvider(preferred)) return preferred
+
+  const fromEnv = process.env.LLM_PROVIDER
+  if (isSelectableProvider(fromEnv)) return fromEnv
+
+  return DEFAULT_LLM_PROVIDER
+}
+
+function isSelectableProvider(value: unknown): value is LLMProviderId {
+  return isLLMProviderId(value) && (value !== "mock" || isMockProviderEnabled())
+}
+
+export function getLanguageModel(provider: LLMProviderId, options: ModelOptions = {}): LanguageModel {
+  const modelId =
+    options.modelId ||
+    serverModelId(provider) ||
+    LLM_PROVIDERS.find((entry) => entry.id === provider)!.defaultModel
+  const apiKey = options.apiKey || serverApiKey(provider)
+
+  switch (provider) {
+    case "gemini":
+      return createGoogleGenerativeAI({ apiKey })(modelId)
+    case "openai":
+      return createOpenAI({ apiKey })(modelId)
+    case "mock":
+      if (!isMockProviderEnabled()) throw new Error("The mock provider is disabled in production")
+      return createMockModel(modelId)
+  }
+}
+
+// A hung provider shouldn't hold the settings request open
+const VALIDATE_TIMEOUT_MS = 10_000
+
+/**
+ * Check an API key against the provider without spending tokens,
+ * by listing the models it can access.
+ */
+export async function validateApiKey(provider: LLMProviderId, apiKey: string) {
+  if (provider === "mock") {
+    return isMockProviderEnabled()
+      ? { valid: true, message: "The mock provider needs no key" }
+      : { valid: false, message: "The mock provider is disabled on this server" }
+  }
+
+  const signal = AbortSignal.timeout(VALIDATE_TIMEOUT_MS)
+  let res: Response
+  try {
+    res = provider === "gemini"
+      ? await fetch("https://generativelanguage.googleapis.com/v1beta/models?pageSize=1", {
+          headers: { "x-goog-api-key": apiKey },
+          signal,
+        })
+      : await fetch("https://api.openai.com/v1/models", {
+          headers: { Authorization: `Bearer ${apiKey}` },
+          signal,
+        })
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      return { valid: false, message: "The provider took too long to respond, try again shortly" }
+    }
+    throw error
+  }
+
+  if (res.ok) return { valid: true, message: "API key is valid" }
+  if (res.status === 400 || res.status === 401 || res.status === 403) {
+    return { valid: false, message: "The provider rejected this API key" }
+  }
+  return { valid: false, message: `Could not verify the key (provider returned ${res.status})` }
+}
@@ -0,0 +1,70 @@
+import { simulateReadableStream, type LanguageModel } from "ai"
+
+// The provider-level model interface; "ai" only exposes it through the LanguageModel union
+type LanguageModelV2 = Exclude<LanguageModel, string>
+type MockCallOptions = Parameters<LanguageModelV2["doStream"]>[0]
+
+// Pull the text of the most recent user turn out of the model prompt
+function lastUserText(options: MockCallOptions) {
+  const lastUser = [...options.prompt].reverse().find((message) => message.role === "user")
+  if (!lastUser || typeof lastUser.content === "string") return ""
+
+  return lastUser.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join(" ")
+    .trim()
+}
+
+// Deterministic reply so offline runs and tests always see the same output
+function mockReply(options: MockCallOptions) {
+  const question = lastUserText(options)
+  return question
+    ? `🎓 UnivBot (offline mode) received your question: "${question}". Configure a Gemini or OpenAI key for real answers.`
+    : "🎓 UnivBot (offline mode) is ready. Ask me anything about campus!"
+}
+
+// Structured-output requests (e.g. answer details) get JSON instead of prose
+function mockObject() {
+  return JSON.stringify({
+    category: "general",
+    confidence: 0.5,
+    sources: [],
+    followUps: ["What can UnivBot help me with?", "How do I add my own API key?"],
+  })
+}
+
+const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 }
+
+/**
+ * Local language model that never touches the network.
+ * Streams the reply word by word so the UI exercises the same code path as real providers.
+ */
+export function createMockModel(modelId = "univbot-mock"): LanguageModelV2 {
+  return {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId,
+    supportedUrls: {},
+    doGenerate: async (options) => ({
+      content: [{ type: "text", text: options.responseFormat?.type === "json" ? mockObject() : mockReply(options) }],
+      finishReason: "stop",
+      usage,
+      warnings: [],
+    }),
+    doStream: async (options) => {
+      const words = mockReply(options).split(/(?<= )/)
+      return {
+        stream: simulateReadableStream({
+          chunks: [
+            { type: "stream-start" as const, warnings: [] },
+            { type: "text-start" as const, id: "mock-text" },
+            ...words.map((delta) => ({ type: "text-delta" as const, id: "mock-text", delta })),
+            { type: "text-end" as const, id: "mock-text" },
+            { type: "finish" as const, finishReason: "stop" as const, usage },
+          ],
+          chunkDelayInMs: 10,
+        }),
+      }
+    },
+  }
+}
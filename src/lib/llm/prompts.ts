@@ -0,0 +1,82 @@
+import { format } from 'date-fns'
+import type { StudentProfile } from '@/lib/profile-schema'
+import { CAMPUS_TIME_ZONE, inTimeZone } from '@/lib/campus-time'
+
+export const UNIVBOT_SYSTEM_PROMPT = `You are UnivBot, a helpful AI assistant for university students. You help with:
+- Academic queries and doubts
+- Exam schedules and information
+- Lab booking assistance
+- Faculty contact information
+- Campus resources and facilities
+- Study tips and academic guidance
+
+Be friendly, concise, and helpful. Use emojis occasionally to make responses more engaging.
+Always try to provide practical solutions and direct students to appropriate resources when needed.
+You can use basic HTML formatting like <strong>, <em>, and <a> tags for rich text responses.
+Keep responses conversational and student-friendly.`
+
+export interface ContextExcerpt {
+  marker: number
+  fileName: string
+  page?: number
+  text: string
+}
+
+interface SystemPromptOptions {
+  excerpts?: ContextExcerpt[]
+  profile?: StudentProfile | null
+  now?: Date
+}
+
+function ordinal(n: number) {
+  const suffixes = ['th', 'st', 'nd', 'rd']
+  const v = n % 100
+  return `${n}${suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]}`
+}
+
+// Only the fields the student filled in; null when there is nothing to say
+function describeProfile(profile: StudentProfile) {
+  const lines = [
+    profile.department && `Department: ${profile.department}`,
+    profile.program && `Program: ${profile.program}`,
+    profile.year && `Year of study: ${ordinal(profile.year)} year`,
+    profile.enrolledCourses.length > 0 && `Enrolled courses: ${profile.enrolledCourses.join(', ')}`
+  ].filter(Boolean)
+
+  return lines.length > 0 ? lines.join('\n') : null
+}
+
+// Base prompt plus the student's profile and retrieved document excerpts, numbered for citation
+export function buildSystemPrompt({ excerpts = [], profile, now = new Date() }: SystemPromptOptions = {}) {
+  // Lets the model resolve "Thursday 3pm" for bookings and reminders
+  const today = `${UNIVBOT_SYSTEM_PROMPT}
+
+Today is ${format(inTimeZone(now), 'EEEE, yyyy-MM-dd HH:mm')} campus time (${CAMPUS_TIME_ZONE}).`
+
+  const aboutStudent = profile && describeProfile(profile)
+  const base = aboutStudent
+    ? `${today}
+
+About the student you are helping:
+${aboutStudent}
+Tailor answers to this context (e.g. their courses' exams and labs) when it is relevant, without repeating it back unprompted.`
+    : today
+
+  if (excerpts.length === 0) return base
+
+  const context = excerpts
+    .map((excerpt) => {
+      const source = excerpt.page ? `${excerpt.fileName}, page ${excerpt.page}` : excerpt.fileName
+      return `[${excerpt.marker}] (${source})\n${excerpt.text}`
+    })
+    .join('\n\n')
+
+  return `${base}
+
+The following excerpts come from documents the student uploaded (handbooks, syllabi, policies).
+Prefer them over general knowledge when they are relevant, and cite every fact you take from them
+with its bracketed number, e.g. "The final exam is on May 5 [2]." Only cite numbers listed below.
+If the excerpts don't answer the question, say so briefly and answer from general knowledge.
+
+${context}`
+}
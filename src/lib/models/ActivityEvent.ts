@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+export type ActivityEventType = 'Document' | 'Tool'
+export type ActivityEventStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+export interface IActivityEvent extends Document {
+  userId: mongoose.Types.ObjectId
+  type: ActivityEventType
+  status: ActivityEventStatus
+  title: string
+  description?: string
+  // Set for Document events
+  documentId?: mongoose.Types.ObjectId
+  // Set for Tool events: the tool and the chat turn that invoked it
+  toolName?: string
+  sessionId?: string
+  messageId?: string
+  // Type-specific details, e.g. file info or tool arguments and result
+  payload?: Record<string, unknown>
+  completedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ActivityEventSchema = new Schema<IActivityEvent>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['Document', 'Tool'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'failed'],
+    default: 'pending'
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  documentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Document'
+  },
+  toolName: {
+    type: String
+  },
+  sessionId: {
+    type: String
+  },
+  messageId: {
+    type: String
+  },
+  payload: {
+    type: Schema.Types.Mixed
+  },
+  completedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+})
+
+// Create indexes for better query performance
+ActivityEventSchema.index({ userId: 1, createdAt: -1 })
+ActivityEventSchema.index({ userId: 1, type: 1, status: 1 })
+ActivityEventSchema.index({ documentId: 1 })
+
+// Prevent mongoose from creating the model multiple times
+export const ActivityEvent = mongoose.models.ActivityEvent || mongoose.model<IActivityEvent>('ActivityEvent', ActivityEventSchema)
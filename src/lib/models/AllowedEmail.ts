@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+// An individual address allowed to sign in even though its domain isn't on the allowlist
+export interface IAllowedEmail extends Document {
+  email: string
+  note?: string
+  addedBy?: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const AllowedEmailSchema = new Schema<IAllowedEmail>({
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  addedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+})
+
+// Prevent mongoose from creating the model multiple times
+export const AllowedEmail = mongoose.models.AllowedEmail || mongoose.model<IAllowedEmail>('AllowedEmail', AllowedEmailSchema)
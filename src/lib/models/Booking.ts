@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+export type BookingStatus = 'confirmed' | 'cancelled'
+
+export interface IBooking extends Document {
+  labId: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  start: Date
+  end: Date
+  status: BookingStatus
+  purpose?: string
+  cancelledAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const BookingSchema = new Schema<IBooking>({
+  labId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Lab',
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  start: {
+    type: Date,
+    required: true
+  },
+  end: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['confirmed', 'cancelled'],
+    default: 'confirmed'
+  },
+  purpose: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  cancelledAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+})
+
+// Create indexes for better query performance
+BookingSchema.index({ labId: 1, status: 1, start: 1 })
+BookingSchema.index({ userId: 1, status: 1, start: 1 })
+
+// Prevent mongoose from creating the model multiple times
+export const Booking = mongoose.models.Booking || mongoose.model<IBooking>('Booking', BookingSchema)
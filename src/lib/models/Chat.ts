@@ -1,14 +1,20 @@
 import mongoose, { Schema, Document } from 'mongoose'
 
 export interface IMessage {
+  messageId?: string
   role: 'user' | 'assistant'
   content: string
+  // Raw UIMessage parts, kept so the client can replay the turn exactly
+  parts?: unknown[]
+  // Message metadata such as document citations
+  metadata?: Record<string, unknown>
   timestamp: Date
 }
 
 export interface IChat extends Document {
   userId?: mongoose.Types.ObjectId
   sessionId: string
+  title?: string
   messages: IMessage[]
   createdAt: Date
   updatedAt: Date
@@ -16,14 +22,25 @@ export interface IChat extends Document {
 }
 
 const MessageSchema = new Schema<IMessage>({
+  messageId: {
+    type: String
+  },
   role: {
     type: String,
     enum: ['user', 'assistant'],
     required: true
   },
+  // Plain text of the turn; empty for tool- or file-only messages, which replay from parts
   content: {
     type: String,
-    required: true
+    default: ''
+  },
+  parts: {
+    type: [Schema.Types.Mixed],
+    default: undefined
+  },
+  metadata: {
+    type: Schema.Types.Mixed
   },
   timestamp: {
     type: Date,
@@ -38,8 +55,12 @@ const ChatSchema = new Schema<IChat>({
   },
   sessionId: {
     type: String,
-    required: true,
-    index: true
+    required: true
+  },
+  title: {
+    type: String,
+    trim: true,
+    maxlength: 120
   },
   messages: [MessageSchema],
   isActive: {
@@ -51,8 +72,9 @@ const ChatSchema = new Schema<IChat>({
 })
 
 // Create indexes for better query performance
-ChatSchema.index({ sessionId: 1 })
-ChatSchema.index({ userId: 1 })
+// One chat per user and session, so concurrent upserts for a new session can't split it;
+// also serves the userId-only sidebar query
+ChatSchema.index({ userId: 1, sessionId: 1 }, { unique: true })
 ChatSchema.index({ createdAt: -1 })
 ChatSchema.index({ isActive: 1 })
 
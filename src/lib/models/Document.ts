@@ -0,0 +1,71 @@
+import mongoose, { Schema } from 'mongoose'
+
+export type DocumentStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+export interface IDocument extends mongoose.Document {
+  userId: mongoose.Types.ObjectId
+  fileName: string
+  mimeType: string
+  size: number
+  // GridFS id of the original upload
+  fileId: mongoose.Types.ObjectId
+  status: DocumentStatus
+  error?: string
+  pageCount?: number
+  chunkCount: number
+  processedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+const DocumentSchema = new Schema<IDocument>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  fileName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  fileId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'failed'],
+    default: 'pending'
+  },
+  error: {
+    type: String
+  },
+  pageCount: {
+    type: Number
+  },
+  chunkCount: {
+    type: Number,
+    default: 0
+  },
+  processedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+})
+
+// Create indexes for better query performance
+DocumentSchema.index({ userId: 1, createdAt: -1 })
+DocumentSchema.index({ status: 1 })
+
+// Prevent mongoose from creating the model multiple times
+export const Document = mongoose.models.Document || mongoose.model<IDocument>('Document', DocumentSchema)
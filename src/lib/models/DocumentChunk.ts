@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+export interface IDocumentChunk extends Document {
+  documentId: mongoose.Types.ObjectId
+  userId: mongoose.Types.ObjectId
+  index: number
+  text: string
+  // 1-based page number, when the source format has pages
+  page?: number
+  // Character offsets of the chunk within its page (or the whole text)
+  start: number
+  end: number
+  createdAt: Date
+}
+
+const DocumentChunkSchema = new Schema<IDocumentChunk>({
+  documentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Document',
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  index: {
+    type: Number,
+    required: true
+  },
+  text: {
+    type: String,
+    required: true
+  },
+  page: {
+    type: Number
+  },
+  start: {
+    type: Number,
+    required: true
+  },
+  end: {
+    type: Number,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+})
+
+// Create indexes for better query performance
+DocumentChunkSchema.index({ documentId: 1, index: 1 }, { unique: true })
+DocumentChunkSchema.index({ userId: 1 })
+
+// Prevent mongoose from creating the model multiple times
+export const DocumentChunk = mongoose.models.DocumentChunk || mongoose.model<IDocumentChunk>('DocumentChunk', DocumentChunkSchema)
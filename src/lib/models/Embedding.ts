@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+export interface IEmbedding extends Document {
+  // Id of the embedded item (a DocumentChunk id for uploaded documents)
+  entryId: string
+  // Which embedder produced the vector; vectors from different embedders are never compared
+  embedderId: string
+  userId: mongoose.Types.ObjectId
+  documentId: mongoose.Types.ObjectId
+  text: string
+  metadata?: Record<string, unknown>
+  embedding: number[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+const EmbeddingSchema = new Schema<IEmbedding>({
+  entryId: {
+    type: String,
+    required: true
+  },
+  embedderId: {
+    type: String,
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  documentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Document',
+    required: true
+  },
+  text: {
+    type: String,
+    required: true
+  },
+  metadata: {
+    type: Schema.Types.Mixed
+  },
+  embedding: {
+    type: [Number],
+    required: true
+  }
+}, {
+  timestamps: true
+})
+
+// Create indexes for better query performance
+EmbeddingSchema.index({ entryId: 1, embedderId: 1 }, { unique: true })
+EmbeddingSchema.index({ embedderId: 1, userId: 1, documentId: 1 })
+EmbeddingSchema.index({ documentId: 1 })
+
+// Prevent mongoose from creating the model multiple times
+export const Embedding = mongoose.models.Embedding || mongoose.model<IEmbedding>('Embedding', EmbeddingSchema)
@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+export type ExamSource = 'csv' | 'ics'
+
+export interface IExamSlot extends Document {
+  // Uppercase, matching students' enrolledCourses
+  courseCode: string
+  title?: string
+  start: Date
+  end: Date
+  location?: string
+  term?: string
+  notes?: string
+  source: ExamSource
+  // UID of the imported calendar event, so re-imports update rescheduled exams in place
+  sourceUid?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ExamSlotSchema = new Schema<IExamSlot>({
+  courseCode: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true
+  },
+  title: {
+    type: String,
+    trim: true
+  },
+  start: {
+    type: Date,
+    required: true
+  },
+  end: {
+    type: Date,
+    required: true
+  },
+  location: {
+    type: String,
+    trim: true
+  },
+  term: {
+    type: String,
+    trim: true
+  },
+  notes: {
+    type: String,
+    trim: true
+  },
+  source: {
+    type: String,
+    enum: ['csv', 'ics'],
+    required: true
+  },
+  sourceUid: {
+    type: String
+  }
+}, {
+  timestamps: true
+})
+
+// Create indexes for better query performance
+ExamSlotSchema.index({ courseCode: 1, start: 1 })
+ExamSlotSchema.index({ courseCode: 1, term: 1, title: 1 })
+ExamSlotSchema.index({ sourceUid: 1 }, { sparse: true })
+
+// Prevent mongoose from creating the model multiple times
+export const ExamSlot = mongoose.models.ExamSlot || mongoose.model<IExamSlot>('ExamSlot', ExamSlotSchema)
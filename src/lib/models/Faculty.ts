@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+export interface IOfficeHours {
+  // 0 = Sunday … 6 = Saturday
+  day: number
+  // Wall-clock "HH:mm" on campus
+  start: string
+  end: string
+  // Where the hours are held when it isn't the usual office, e.g. "Zoom"
+  location?: string
+}
+
+export interface IFaculty extends Document {
+  name: string
+  title?: string
+  department: string
+  email: string
+  phone?: string
+  office?: string
+  officeHours: IOfficeHours[]
+  // Uppercase course codes, matching students' enrolledCourses
+  courses: string[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+const OfficeHoursSchema = new Schema<IOfficeHours>({
+  day: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 6
+  },
+  start: {
+    type: String,
+    required: true,
+    match: TIME_PATTERN
+  },
+  end: {
+    type: String,
+    required: true,
+    match: TIME_PATTERN
+  },
+  location: {
+    type: String,
+    trim: true
+  }
+}, { _id: false })
+
+const FacultySchema = new Schema<IFaculty>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  title: {
+    type: String,
+    trim: true
+  },
+  department: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true
+  },
+  phone: {
+    type: String,
+    trim: true
+  },
+  office: {
+    type: String,
+    trim: true
+  },
+  officeHours: {
+    type: [OfficeHoursSchema],
+    default: []
+  },
+  courses: {
+    type: [String],
+    default: []
+  }
+}, {
+  timestamps: true
+})
+
+// Create indexes for better query performance
+FacultySchema.index({ courses: 1 })
+FacultySchema.index({ department: 1, name: 1 })
+
+// Prevent mongoose from creating the model multiple times
+export const Faculty = mongoose.models.Faculty || mongoose.model<IFaculty>('Faculty', FacultySchema)
@@ -0,0 +1,105 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+export interface IOpeningHours {
+  // 0 = Sunday … 6 = Saturday
+  day: number
+  // Wall-clock "HH:mm" in the lab's time zone
+  open: string
+  close: string
+}
+
+export interface ILab extends Document {
+  name: string
+  code: string
+  location?: string
+  description?: string
+  // Students who can book the same slot at once
+  capacity: number
+  openingHours: IOpeningHours[]
+  slotMinutes: number
+  timeZone: string
+  isActive: boolean
+  // Bumped inside every booking transaction so concurrent bookings of a lab conflict and retry
+  bookingVersion: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+const OpeningHoursSchema = new Schema<IOpeningHours>({
+  day: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 6
+  },
+  open: {
+    type: String,
+    required: true,
+    match: TIME_PATTERN
+  },
+  close: {
+    type: String,
+    required: true,
+    match: TIME_PATTERN
+  }
+}, { _id: false })
+
+const LabSchema = new Schema<ILab>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true
+  },
+  location: {
+    type: String,
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  capacity: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  openingHours: {
+    type: [OpeningHoursSchema],
+    default: []
+  },
+  slotMinutes: {
+    type: Number,
+    default: 60,
+    min: 15,
+    max: 240
+  },
+  timeZone: {
+    type: String,
+    required: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  bookingVersion: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+})
+
+// Create indexes for better query performance
+LabSchema.index({ isActive: 1, name: 1 })
+
+// Prevent mongoose from creating the model multiple times
+export const Lab = mongoose.models.Lab || mongoose.model<ILab>('Lab', LabSchema)
@@ -0,0 +1,124 @@
+import mongoose, { Schema, Document } from 'mongoose'
+import {
+  REMINDER_CHANNELS,
+  REMINDER_STATUSES,
+  type ReminderChannel,
+  type ReminderStatus
+} from '@/lib/reminder-schema'
+
+// Outcome of one channel for one dispatch attempt
+export interface IReminderDelivery {
+  channel: ReminderChannel
+  status: 'sent' | 'failed' | 'skipped'
+  error?: string
+  at: Date
+}
+
+export interface IReminder extends Document {
+  userId: mongoose.Types.ObjectId
+  title: string
+  notes?: string
+  remindAt: Date
+  channels: ReminderChannel[]
+  status: ReminderStatus
+  deliveries: IReminderDelivery[]
+  attempts: number
+  // The scheduler skips a reminder until this passes: while one instance is sending it, or before a retry
+  lockedUntil?: Date
+  sentAt?: Date
+  // When the in-app toast was shown
+  seenAt?: Date
+  cancelledAt?: Date
+  // The chat turn that created it, if any
+  sessionId?: string
+  messageId?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ReminderDeliverySchema = new Schema<IReminderDelivery>({
+  channel: {
+    type: String,
+    enum: REMINDER_CHANNELS,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['sent', 'failed', 'skipped'],
+    required: true
+  },
+  error: {
+    type: String
+  },
+  at: {
+    type: Date,
+    required: true
+  }
+}, { _id: false })
+
+const ReminderSchema = new Schema<IReminder>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  remindAt: {
+    type: Date,
+    required: true
+  },
+  channels: {
+    type: [{ type: String, enum: REMINDER_CHANNELS }],
+    default: ['in_app']
+  },
+  status: {
+    type: String,
+    enum: REMINDER_STATUSES,
+    default: 'scheduled'
+  },
+  deliveries: {
+    type: [ReminderDeliverySchema],
+    default: []
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  lockedUntil: {
+    type: Date
+  },
+  sentAt: {
+    type: Date
+  },
+  seenAt: {
+    type: Date
+  },
+  cancelledAt: {
+    type: Date
+  },
+  sessionId: {
+    type: String
+  },
+  messageId: {
+    type: String
+  }
+}, {
+  timestamps: true
+})
+
+// Create indexes for better query performance
+ReminderSchema.index({ status: 1, remindAt: 1 })
+ReminderSchema.index({ userId: 1, remindAt: -1 })
+
+// Prevent mongoose from creating the model multiple times
+export const Reminder = mongoose.models.Reminder || mongoose.model<IReminder>('Reminder', ReminderSchema)
@@ -1,9 +1,25 @@
 import mongoose, { Schema, Document } from 'mongoose'
 
+export const USER_ROLES = ['student', 'faculty', 'staff', 'admin'] as const
+
+export type UserRole = (typeof USER_ROLES)[number]
+
 export interface IUser extends Document {
   email: string
   name: string
   studentId?: string
+  department?: string
+  program?: string
+  year?: number
+  enrolledCourses: string[]
+  role: UserRole
+  // AES-GCM encrypted personal Gemini key; never selected by default
+  geminiApiKeyEncrypted?: string
+  geminiApiKeyLast4?: string
+  // Secret in the user's calendar feed URL; never selected by default
+  calendarFeedToken?: string
+  // Bumped inside every lab booking transaction so one user's concurrent bookings conflict and retry
+  bookingVersion?: number
   createdAt: Date
   updatedAt: Date
   lastActive: Date
@@ -26,6 +42,42 @@ const UserSchema = new Schema<IUser>({
     type: String,
     trim: true
   },
+  department: {
+    type: String,
+    trim: true
+  },
+  program: {
+    type: String,
+    trim: true
+  },
+  year: {
+    type: Number,
+    min: 1,
+    max: 8
+  },
+  enrolledCourses: {
+    type: [String],
+    default: undefined
+  },
+  role: {
+    type: String,
+    enum: USER_ROLES,
+    default: 'student'
+  },
+  geminiApiKeyEncrypted: {
+    type: String,
+    select: false
+  },
+  geminiApiKeyLast4: {
+    type: String
+  },
+  calendarFeedToken: {
+    type: String,
+    select: false
+  },
+  bookingVersion: {
+    type: Number
+  },
   lastActive: {
     type: Date,
     default: Date.now
@@ -36,6 +88,8 @@ const UserSchema = new Schema<IUser>({
 
 // Create index for better query performance (removed duplicate)
 UserSchema.index({ studentId: 1 })
+UserSchema.index({ role: 1 })
+UserSchema.index({ calendarFeedToken: 1 }, { unique: true, sparse: true })
 
 // Prevent mongoose from creating the model multiple times
 export const User = mongoose.models.User || mongoose.model<IUser>('User', UserSchema) 
\ No newline at end of file
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+// A browser registered for web push; one user may have several devices
+export interface IWebPushSubscription extends Document {
+  userId: mongoose.Types.ObjectId
+  endpoint: string
+  keys: {
+    p256dh: string
+    auth: string
+  }
+  userAgent?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+const WebPushSubscriptionSchema = new Schema<IWebPushSubscription>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  endpoint: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  keys: {
+    p256dh: {
+      type: String,
+      required: true
+    },
+    auth: {
+      type: String,
+      required: true
+    }
+  },
+  userAgent: {
+    type: String
+  }
+}, {
+  timestamps: true
+})
+
+// Create indexes for better query performance
+WebPushSubscriptionSchema.index({ userId: 1 })
+
+// Prevent mongoose from creating the model multiple times
+export const WebPushSubscription =
+  mongoose.models.WebPushSubscription ||
+  mongoose.model<IWebPushSubscription>('WebPushSubscription', WebPushSubscriptionSchema)
@@ -1,23 +1,30 @@
 import mongoose from 'mongoose'
+import type { MongoClient } from 'mongodb'
 
-const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/univbot'
+// Only development falls back to a local server; production must be configured explicitly
+const DEVELOPMENT_URI = 'mongodb://localhost:27017/univbot'
 
-if (!MONGODB_URI) {
-  throw new Error('Please define the MONGODB_URI environment variable inside .env.local')
+function mongoUri() {
+  const uri = process.env.MONGODB_URI
+  if (uri) return uri
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Please define the MONGODB_URI environment variable inside .env.local')
+  }
+  return DEVELOPMENT_URI
 }
 
-// Simple connection caching
-let cachedConnection: typeof mongoose | null = null
-let connectionPromise: Promise<typeof mongoose> | null = null
+// Cached on globalThis so hot reloads in development reuse the pool instead of opening another
+const globalWithMongoose = globalThis as typeof globalThis & {
+  _mongooseConnectionPromise?: Promise<typeof mongoose> | null
+}
 
+/**
+ * The single MongoDB connection shared by the mongoose models, GridFS and the NextAuth adapter.
+ */
 async function dbConnect() {
-  // Return existing connection if available
-  if (cachedConnection) {
-    return cachedConnection
-  }
-
   // Create new connection if no promise exists
-  if (!connectionPromise) {
+  if (!globalWithMongoose._mongooseConnectionPromise) {
     const opts = {
       bufferCommands: false,
       maxPoolSize: 10, // Maintain up to 10 socket connections
@@ -27,17 +34,38 @@ async function dbConnect() {
       maxIdleTimeMS: 30000, // Close idle connections after 30 seconds
     }
 
-    connectionPromise = mongoose.connect(MONGODB_URI, opts)
+    globalWithMongoose._mongooseConnectionPromise = mongoose.connect(mongoUri(), opts).then((connection) => {
+      console.log('✅ Connected to MongoDB with connection pooling')
+      return connection
+    })
   }
-  
+
   try {
-    cachedConnection = await connectionPromise
-    console.log('✅ Connected to MongoDB with connection pooling')
-    return cachedConnection
+    return await globalWithMongoose._mongooseConnectionPromise
   } catch (error) {
-    connectionPromise = null
+    // Let the next call retry instead of caching the failure
+    globalWithMongoose._mongooseConnectionPromise = null
     throw error
   }
 }
 
-export default dbConnect 
\ No newline at end of file
+// The driver client behind the mongoose connection, for code that needs the raw driver
+export async function getMongoClient(): Promise<MongoClient> {
+  const connection = await dbConnect()
+  return connection.connection.getClient()
+}
+
+/** Round-trip time of a ping to the database, in milliseconds. */
+export async function pingDatabase() {
+  const connection = await dbConnect()
+  const db = connection.connection.db
+  if (!db) {
+    throw new Error('MongoDB connection is not ready')
+  }
+
+  const started = performance.now()
+  await db.admin().ping()
+  return Math.round(performance.now() - started)
+}
+
+export default dbConnect
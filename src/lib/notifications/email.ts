@@ -0,0 +1,45 @@
+import nodemailer, { type Transporter } from 'nodemailer'
+import { NotificationSkippedError, type NotificationChannel } from './types'
+
+const DEFAULT_FROM = 'UnivBot <no-reply@localhost>'
+
+let transporter: Transporter | null = null
+
+// SMTP from EMAIL_SERVER (shared with magic-link sign-in); in development without it, messages are logged instead
+function getTransporter() {
+  if (!transporter) {
+    transporter = process.env.EMAIL_SERVER
+      ? nodemailer.createTransport(process.env.EMAIL_SERVER)
+      : nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' })
+  }
+  return transporter
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+export const emailChannel: NotificationChannel = {
+  name: 'email',
+  isConfigured: () => !!process.env.EMAIL_SERVER || process.env.NODE_ENV !== 'production',
+  send: async (recipient, notification) => {
+    if (!recipient.email) {
+      throw new NotificationSkippedError('The user has no email address')
+    }
+
+    const info = await getTransporter().sendMail({
+      from: process.env.EMAIL_FROM || DEFAULT_FROM,
+      to: recipient.email,
+      subject: `Reminder: ${notification.title}`,
+      text: [notification.body, `Open UnivBot: ${notification.url}`].filter(Boolean).join('\n\n'),
+      html: `<p><strong>${escapeHtml(notification.title)}</strong></p>${
+        notification.body ? `<p>${escapeHtml(notification.body).replace(/\n/g, '<br>')}</p>` : ''
+      }<p><a href="${escapeHtml(notification.url)}">Open UnivBot</a></p>`
+    })
+
+    // The local stand-in transport hands back the raw message rather than sending it
+    if (!process.env.EMAIL_SERVER && 'message' in info) {
+      console.log(`📧 Reminder email (not sent, EMAIL_SERVER is unset):\n${String(info.message)}`)
+    }
+  }
+}
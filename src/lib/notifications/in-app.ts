@@ -0,0 +1,11 @@
+import type { NotificationChannel } from './types'
+
+/**
+ * Shown as a toast by the open app, which polls for sent reminders it hasn't shown yet,
+ * so there is nothing to push from the server.
+ */
+export const inAppChannel: NotificationChannel = {
+  name: 'in_app',
+  isConfigured: () => true,
+  send: async () => {}
+}
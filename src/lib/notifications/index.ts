@@ -0,0 +1,25 @@
+import type { ReminderChannel } from '@/lib/reminder-schema'
+import { emailChannel } from './email'
+import { inAppChannel } from './in-app'
+import { pushChannel } from './push'
+import type { NotificationChannel } from './types'
+
+export * from './types'
+export { isPushServiceEndpoint, vapidPublicKey } from './push'
+
+// Every way a reminder can reach a user. Add new channels here (and to REMINDER_CHANNELS).
+const CHANNELS: Record<ReminderChannel, NotificationChannel> = {
+  in_app: inAppChannel,
+  email: emailChannel,
+  push: pushChannel
+}
+
+export function getChannel(name: ReminderChannel) {
+  return CHANNELS[name]
+}
+
+export function configuredChannels() {
+  return Object.values(CHANNELS)
+    .filter((channel) => channel.isConfigured())
+    .map((channel) => channel.name)
+}
@@ -0,0 +1,82 @@
+import webpush, { WebPushError } from 'web-push'
+import { WebPushSubscription, type IWebPushSubscription } from '@/lib/models/WebPushSubscription'
+import { NotificationSkippedError, type NotificationChannel } from './types'
+
+export function vapidPublicKey() {
+  return process.env.VAPID_PUBLIC_KEY || null
+}
+
+// Hosts of the browsers' push services; anything else could point the server at an internal address
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'android.googleapis.com',
+  'push.services.mozilla.com',
+  'push.apple.com',
+  'notify.windows.com'
+]
+
+/** Whether a subscription endpoint is an https URL on a known push service (or a subdomain of one). */
+export function isPushServiceEndpoint(endpoint: string) {
+  let url: URL
+  try {
+    url = new URL(endpoint)
+  } catch {
+    return false
+  }
+  if (url.protocol !== 'https:' || url.port || url.username || url.password) return false
+
+  const host = url.hostname.toLowerCase()
+  return PUSH_SERVICE_HOSTS.some((service) => host === service || host.endsWith(`.${service}`))
+}
+
+let vapidConfigured = false
+
+function configureVapid() {
+  if (!vapidConfigured) {
+    webpush.setVapidDetails(
+      process.env.VAPID_SUBJECT || 'mailto:admin@localhost',
+      process.env.VAPID_PUBLIC_KEY!,
+      process.env.VAPID_PRIVATE_KEY!
+    )
+    vapidConfigured = true
+  }
+}
+
+export const pushChannel: NotificationChannel = {
+  name: 'push',
+  isConfigured: () => !!(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY),
+  send: async (recipient, notification) => {
+    const subscriptions = (
+      await WebPushSubscription.find({ userId: recipient.userId }).lean<IWebPushSubscription[]>()
+    ).filter((subscription) => isPushServiceEndpoint(subscription.endpoint))
+    if (subscriptions.length === 0) {
+      throw new NotificationSkippedError('Push notifications are not enabled on any of the user\'s devices')
+    }
+
+    configureVapid()
+    const payload = JSON.stringify(notification)
+    const results = await Promise.allSettled(
+      subscriptions.map((subscription) =>
+        webpush.sendNotification({ endpoint: subscription.endpoint, keys: subscription.keys }, payload)
+      )
+    )
+
+    // The push service forgets subscriptions when the user revokes permission or uninstalls the browser
+    const expired = subscriptions.filter((subscription, i) => {
+      const result = results[i]
+      return (
+        result.status === 'rejected' &&
+        result.reason instanceof WebPushError &&
+        (result.reason.statusCode === 404 || result.reason.statusCode === 410)
+      )
+    })
+    if (expired.length > 0) {
+      await WebPushSubscription.deleteMany({ _id: { $in: expired.map((subscription) => subscription._id) } })
+    }
+
+    if (!results.some((result) => result.status === 'fulfilled')) {
+      const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')
+      throw failure?.reason instanceof Error ? failure.reason : new Error('Push delivery failed')
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import type mongoose from 'mongoose'
+import type { ReminderChannel } from '@/lib/reminder-schema'
+
+export interface NotificationRecipient {
+  userId: mongoose.Types.ObjectId
+  email?: string
+  name?: string
+}
+
+export interface Notification {
+  title: string
+  body?: string
+  // Where a click on the notification should lead
+  url: string
+}
+
+export interface NotificationChannel {
+  name: ReminderChannel
+  // Whether the server has what it needs to use the channel at all
+  isConfigured: () => boolean
+  // Throws when the notification couldn't be delivered
+  send: (recipient: NotificationRecipient, notification: Notification) => Promise<void>
+}
+
+// Delivery problems that won't go away on retry, e.g. the user has no email address
+export class NotificationSkippedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NotificationSkippedError'
+  }
+}
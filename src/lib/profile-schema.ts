@@ -0,0 +1,60 @@
+import { z } from 'zod'
+import { escapeRegExp } from '@/lib/utils'
+
+// Shared by the profile API and the Settings form, so keep this file free of server imports
+
+export const MAX_ENROLLED_COURSES = 20
+export const MAX_STUDY_YEAR = 8
+
+// Course codes like "CS101" or "MATH-2010"; stored uppercase so lookups match
+export const courseCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9][A-Z0-9 -]{1,19}$/, 'Course codes may only contain letters, digits, spaces and dashes')
+
+/** Case-insensitive match for a course code that ignores spacing and dashes, so "cs 101" finds "CS101". */
+export function courseCodeRegex(code: string) {
+  const characters = code
+    .replace(/[\s-]+/g, '')
+    .split('')
+    .map(escapeRegExp)
+  return new RegExp(`^${characters.join('[\\s-]?')}$`, 'i')
+}
+
+// Empty strings and null clear a field
+const optionalText = (label: string, max: number) =>
+  z.string().trim().max(max, `${label} must be at most ${max} characters`).nullable().optional()
+
+export const profileUpdateSchema = z
+  .object({
+    department: optionalText('Department', 100),
+    program: optionalText('Program', 100),
+    studentId: optionalText('Student ID', 32).refine(
+      (value) => !value || /^[A-Za-z0-9-]+$/.test(value),
+      'Student ID may only contain letters, digits and dashes'
+    ),
+    year: z
+      .number()
+      .int('Year must be a whole number')
+      .min(1, 'Year must be between 1 and 8')
+      .max(MAX_STUDY_YEAR, 'Year must be between 1 and 8')
+      .nullable()
+      .optional(),
+    enrolledCourses: z
+      .array(courseCodeSchema)
+      .max(MAX_ENROLLED_COURSES, `At most ${MAX_ENROLLED_COURSES} courses`)
+      .transform((codes) => Array.from(new Set(codes)))
+      .optional()
+  })
+  .strict()
+
+export type ProfileUpdate = z.infer<typeof profileUpdateSchema>
+
+export interface StudentProfile {
+  department?: string
+  program?: string
+  studentId?: string
+  year?: number
+  enrolledCourses: string[]
+}
@@ -0,0 +1,49 @@
+import type { UIMessage } from 'ai'
+import type { AnswerDetails } from '@/lib/llm/answer-schema'
+
+// Shared with the client, so this file must stay free of server-only imports
+
+export interface Citation {
+  // The [n] marker the assistant uses inline
+  marker: number
+  chunkId: string
+  documentId: string
+  fileName: string
+  page?: number
+  // Character span of the chunk within its page (or the whole text)
+  start: number
+  end: number
+  snippet: string
+}
+
+export interface UnivBotMessageMetadata {
+  citations?: Citation[]
+  // Category, confidence and follow-ups, sent once the answer has finished streaming
+  details?: AnswerDetails
+}
+
+export type UnivBotUIMessage = UIMessage<UnivBotMessageMetadata>
+
+const CITATION_MARKER = /\[(\d+)\]/g
+
+/**
+ * Split text around [n] markers that refer to a known citation.
+ * Unknown numbers stay in the text so nothing the model wrote is dropped.
+ */
+export function splitCitationMarkers(text: string, citations: Citation[]) {
+  const known = new Map(citations.map((citation) => [citation.marker, citation]))
+  const segments: Array<string | Citation> = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(CITATION_MARKER)) {
+    const citation = known.get(Number(match[1]))
+    if (!citation) continue
+
+    segments.push(text.slice(lastIndex, match.index))
+    segments.push(citation)
+    lastIndex = match.index + match[0].length
+  }
+  segments.push(text.slice(lastIndex))
+
+  return segments.filter((segment) => segment !== '')
+}
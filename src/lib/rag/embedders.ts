@@ -0,0 +1,81 @@
+import { createGoogleGenerativeAI } from '@ai-sdk/google'
+import { createOpenAI } from '@ai-sdk/openai'
+import { embedMany, type EmbeddingModel } from 'ai'
+import type { Embedder } from './types'
+
+const DEFAULT_HASHING_DIMENSIONS = 512
+
+// 32-bit FNV-1a, enough to spread tokens evenly across buckets
+function fnv1a(value: string) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function tokenize(text: string) {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+}
+
+/**
+ * Feature-hashing embedder: unigrams and bigrams hashed into a fixed-size vector.
+ * Purely lexical, but deterministic and offline, which makes it the default for tests and local dev.
+ */
+export function createHashingEmbedder(dimensions = DEFAULT_HASHING_DIMENSIONS): Embedder {
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(dimensions).fill(0)
+    const tokens = tokenize(text)
+    const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)]
+
+    for (const feature of features) {
+      const hash = fnv1a(feature)
+      // The top bit picks the sign so collisions tend to cancel out
+      vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    return norm === 0 ? vector : vector.map((value) => value / norm)
+  }
+
+  return {
+    id: `hashing-${dimensions}`,
+    embed: async (texts) => texts.map(embedOne)
+  }
+}
+
+// Wrap any AI SDK embedding model
+export function createModelEmbedder(id: string, model: EmbeddingModel<string>): Embedder {
+  return {
+    id,
+    embed: async (texts) => {
+      if (texts.length === 0) return []
+      const { embeddings } = await embedMany({ model, values: texts })
+      return embeddings
+    }
+  }
+}
+
+/**
+ * Embedder selected by EMBEDDING_PROVIDER (hashing by default).
+ * Switching providers changes the vector space, so existing documents need re-indexing.
+ */
+export function getEmbedder(provider = process.env.EMBEDDING_PROVIDER): Embedder {
+  switch (provider) {
+    case 'gemini': {
+      const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY || process.env.GEMINI_API_KEY
+      return createModelEmbedder(
+        'gemini-text-embedding-004',
+        createGoogleGenerativeAI({ apiKey }).textEmbeddingModel('text-embedding-004')
+      )
+    }
+    case 'openai':
+      return createModelEmbedder(
+        'openai-text-embedding-3-small',
+        createOpenAI({ apiKey: process.env.OPENAI_API_KEY }).textEmbeddingModel('text-embedding-3-small')
+      )
+    default:
+      return createHashingEmbedder()
+  }
+}
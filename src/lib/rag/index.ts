@@ -0,0 +1,8 @@
+export * from './citations'
+export * from './embedders'
+export * from './memory-store'
+export * from './mongo-store'
+export * from './retrieval'
+export * from './similarity'
+export * from './store'
+export * from './types'
@@ -0,0 +1,33 @@
+import { matchesFilter, rankBySimilarity } from './similarity'
+import type { Embedder, SearchOptions, VectorEntry, VectorStore } from './types'
+
+/**
+ * Vector store held in process memory.
+ * Contents are lost on restart, so it suits tests and single-instance development.
+ */
+export function createInMemoryVectorStore(embedder: Embedder): VectorStore {
+  const entries = new Map<string, VectorEntry & { embedding: number[] }>()
+
+  return {
+    async add(newEntries) {
+      const embeddings = await embedder.embed(newEntries.map((entry) => entry.text))
+      newEntries.forEach((entry, i) => {
+        entries.set(entry.id, { ...entry, embedding: embeddings[i] })
+      })
+    },
+
+    async search(query: string, options: SearchOptions = {}) {
+      const candidates = Array.from(entries.values()).filter((entry) => matchesFilter(entry, options))
+      if (candidates.length === 0) return []
+
+      const [queryEmbedding] = await embedder.embed([query])
+      return rankBySimilarity(queryEmbedding, candidates, options)
+    },
+
+    async deleteDocument(documentId: string) {
+      for (const [id, entry] of entries) {
+        if (entry.documentId === documentId) entries.delete(id)
+      }
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import mongoose from 'mongoose'
+import dbConnect from '@/lib/mongodb'
+import { Embedding } from '@/lib/models/Embedding'
+import { rankBySimilarity } from './similarity'
+import type { Embedder, SearchOptions, VectorStore } from './types'
+
+interface StoredEmbedding {
+  entryId: string
+  userId: mongoose.Types.ObjectId
+  documentId: mongoose.Types.ObjectId
+  text: string
+  metadata?: Record<string, unknown>
+  embedding: number[]
+}
+
+/**
+ * Vector store persisted in the Embedding collection.
+ * Filtering happens in MongoDB and scoring in process, which is plenty for per-user document sets.
+ */
+export function createMongoVectorStore(embedder: Embedder): VectorStore {
+  return {
+    async add(entries) {
+      if (entries.length === 0) return
+
+      await dbConnect()
+      const embeddings = await embedder.embed(entries.map((entry) => entry.text))
+
+      await Embedding.bulkWrite(
+        entries.map((entry, i) => ({
+          updateOne: {
+            filter: { entryId: entry.id, embedderId: embedder.id },
+            update: {
+              $set: {
+                userId: entry.userId,
+                documentId: entry.documentId,
+                text: entry.text,
+                metadata: entry.metadata,
+                embedding: embeddings[i]
+              }
+            },
+            upsert: true
+          }
+        }))
+      )
+    },
+
+    async search(query: string, options: SearchOptions = {}) {
+      await dbConnect()
+
+      const filter: Record<string, unknown> = { embedderId: embedder.id }
+      if (options.userId) filter.userId = options.userId
+      if (options.documentIds) filter.documentId = { $in: options.documentIds }
+
+      const candidates: StoredEmbedding[] = await Embedding.find(filter)
+        .select('entryId userId documentId text metadata embedding')
+        .lean<StoredEmbedding[]>()
+      if (candidates.length === 0) return []
+
+      const [queryEmbedding] = await embedder.embed([query])
+      return rankBySimilarity(
+        queryEmbedding,
+        candidates.map((candidate) => ({
+          id: candidate.entryId,
+          userId: candidate.userId.toString(),
+          documentId: candidate.documentId.toString(),
+          text: candidate.text,
+          metadata: candidate.metadata,
+          embedding: candidate.embedding
+        })),
+        options
+      )
+    },
+
+    async deleteDocument(documentId: string) {
+      await dbConnect()
+      await Embedding.deleteMany({ documentId })
+    }
+  }
+}
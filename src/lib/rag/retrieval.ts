@@ -0,0 +1,40 @@
+import { getVectorStore } from './store'
+import type { Citation } from './citations'
+
+const DEFAULT_CONTEXT_CHUNKS = 5
+// Hashing embeddings score unrelated text at or near zero; skip those matches
+const MIN_RELEVANCE = 0.05
+const SNIPPET_LENGTH = 280
+
+function snippetOf(text: string) {
+  return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH - 1).trimEnd()}…` : text
+}
+
+/**
+ * Find the user's document chunks most relevant to a question.
+ * Each result is numbered so the model can cite it as [n].
+ */
+export async function retrieveCitations(
+  userId: string,
+  query: string,
+  topK = DEFAULT_CONTEXT_CHUNKS
+): Promise<Array<Citation & { text: string }>> {
+  if (!query.trim()) return []
+
+  const results = await getVectorStore().search(query, { userId, topK, minScore: MIN_RELEVANCE })
+
+  return results.map((result, i) => {
+    const metadata = result.metadata ?? {}
+    return {
+      marker: i + 1,
+      chunkId: result.id,
+      documentId: result.documentId,
+      fileName: typeof metadata.fileName === 'string' ? metadata.fileName : 'Uploaded document',
+      page: typeof metadata.page === 'number' ? metadata.page : undefined,
+      start: typeof metadata.start === 'number' ? metadata.start : 0,
+      end: typeof metadata.end === 'number' ? metadata.end : result.text.length,
+      snippet: snippetOf(result.text),
+      text: result.text
+    }
+  })
+}
@@ -0,0 +1,43 @@
+import type { SearchOptions, SearchResult, VectorEntry } from './types'
+
+export const DEFAULT_TOP_K = 5
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimensions differ: ${a.length} vs ${b.length}`)
+  }
+
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  if (normA === 0 || normB === 0) return 0
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+export function matchesFilter(entry: Pick<VectorEntry, 'userId' | 'documentId'>, options: SearchOptions) {
+  if (options.userId && entry.userId !== options.userId) return false
+  if (options.documentIds && !options.documentIds.includes(entry.documentId)) return false
+  return true
+}
+
+// Score candidates against the query and keep the best topK
+export function rankBySimilarity(
+  queryEmbedding: number[],
+  candidates: Array<VectorEntry & { embedding: number[] }>,
+  options: SearchOptions
+): SearchResult[] {
+  const topK = options.topK ?? DEFAULT_TOP_K
+  const minScore = options.minScore ?? -Infinity
+
+  return candidates
+    .map(({ embedding, ...entry }) => ({ ...entry, score: cosineSimilarity(queryEmbedding, embedding) }))
+    .filter((result) => result.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+}
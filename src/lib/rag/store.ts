@@ -0,0 +1,19 @@
+import { getEmbedder } from './embedders'
+import { createInMemoryVectorStore } from './memory-store'
+import { createMongoVectorStore } from './mongo-store'
+import type { VectorStore } from './types'
+
+let vectorStore: VectorStore | null = null
+
+/**
+ * Shared vector store selected by VECTOR_STORE: "mongodb" (default) or "memory".
+ */
+export function getVectorStore() {
+  if (!vectorStore) {
+    const embedder = getEmbedder()
+    vectorStore = process.env.VECTOR_STORE === 'memory'
+      ? createInMemoryVectorStore(embedder)
+      : createMongoVectorStore(embedder)
+  }
+  return vectorStore
+}
@@ -0,0 +1,35 @@
+export interface Embedder {
+  // Identifies the vector space; vectors from different embedders are never compared
+  id: string
+  embed(texts: string[]): Promise<number[][]>
+}
+
+export interface VectorEntry {
+  // Stable id of the embedded item, e.g. a DocumentChunk id
+  id: string
+  userId: string
+  documentId: string
+  text: string
+  metadata?: Record<string, unknown>
+}
+
+export interface SearchOptions {
+  topK?: number
+  // Only return entries owned by this user
+  userId?: string
+  // Only return entries from these documents
+  documentIds?: string[]
+  // Drop results scoring below this cosine similarity
+  minScore?: number
+}
+
+export interface SearchResult extends VectorEntry {
+  score: number
+}
+
+export interface VectorStore {
+  // Embed and store entries, replacing any with the same id
+  add(entries: VectorEntry[]): Promise<void>
+  search(query: string, options?: SearchOptions): Promise<SearchResult[]>
+  deleteDocument(documentId: string): Promise<void>
+}
@@ -0,0 +1,37 @@
+import dbConnect from '@/lib/mongodb'
+import { dispatchDueReminders } from '@/lib/reminders'
+
+const POLL_INTERVAL_MS = (Number(process.env.REMINDER_POLL_SECONDS) || 30) * 1000
+
+// One scheduler per server process, even across hot reloads in development
+const globalWithScheduler = globalThis as typeof globalThis & {
+  _reminderScheduler?: NodeJS.Timeout
+}
+
+/**
+ * Poll for due reminders in the background of a long-running server.
+ * Serverless deployments, where nothing runs between requests, call /api/reminders/dispatch from a cron job instead.
+ */
+export function startReminderScheduler() {
+  if (globalWithScheduler._reminderScheduler) return
+
+  let running = false
+  const tick = async () => {
+    // A slow batch shouldn't overlap the next one
+    if (running) return
+    running = true
+    try {
+      await dbConnect()
+      const dispatched = await dispatchDueReminders()
+      if (dispatched > 0) console.log(`⏰ Dispatched ${dispatched} reminder(s)`)
+    } catch (error) {
+      console.error('Reminder dispatch failed:', error)
+    } finally {
+      running = false
+    }
+  }
+
+  globalWithScheduler._reminderScheduler = setInterval(tick, POLL_INTERVAL_MS)
+  // Don't keep the process alive just for reminders
+  globalWithScheduler._reminderScheduler.unref()
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod'
+
+// Shared by the reminders API and the Reminders dialog, so keep this file free of server imports
+
+export const REMINDER_CHANNELS = ['in_app', 'email', 'push'] as const
+
+export type ReminderChannel = (typeof REMINDER_CHANNELS)[number]
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  in_app: 'In-app',
+  email: 'Email',
+  push: 'Push'
+}
+
+export const REMINDER_STATUSES = ['scheduled', 'sending', 'sent', 'failed', 'cancelled'] as const
+
+export type ReminderStatus = (typeof REMINDER_STATUSES)[number]
+
+export const reminderInputSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200, 'Title must be at most 200 characters'),
+  notes: z.string().trim().max(1000, 'Notes must be at most 1000 characters').optional(),
+  remindAt: z.coerce
+    .date({ invalid_type_error: 'Reminder time must be a date' })
+    .refine((date) => date.getTime() > Date.now(), 'Reminder time must be in the future'),
+  channels: z
+    .array(z.enum(REMINDER_CHANNELS))
+    .min(1, 'Pick at least one channel')
+    .default(['in_app'])
+    .transform((channels) => Array.from(new Set(channels)))
+})
+
+export type ReminderInput = z.infer<typeof reminderInputSchema>
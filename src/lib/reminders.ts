@@ -0,0 +1,187 @@
+import mongoose from 'mongoose'
+import { Reminder, type IReminder, type IReminderDelivery } from '@/lib/models/Reminder'
+import { User, type IUser } from '@/lib/models/User'
+import { getChannel, NotificationSkippedError } from '@/lib/notifications'
+import { appUrl } from '@/lib/app-url'
+import type { ReminderInput } from '@/lib/reminder-schema'
+
+export const MAX_SCHEDULED_REMINDERS = 100
+// Attempts before channels that keep failing are given up on
+const MAX_ATTEMPTS = 3
+const RETRY_DELAY_MS = 5 * 60 * 1000
+// How long one scheduler instance owns a reminder while sending it
+const SEND_LOCK_MS = 2 * 60 * 1000
+
+export class ReminderLimitError extends Error {
+  constructor() {
+    super(`You can have at most ${MAX_SCHEDULED_REMINDERS} scheduled reminders`)
+    this.name = 'ReminderLimitError'
+  }
+}
+
+export async function createReminder(
+  userId: mongoose.Types.ObjectId,
+  input: ReminderInput,
+  origin: { sessionId?: string; messageId?: string } = {}
+) {
+  const scheduled = await Reminder.countDocuments({ userId, status: 'scheduled' })
+  if (scheduled >= MAX_SCHEDULED_REMINDERS) throw new ReminderLimitError()
+
+  const reminder: IReminder = await Reminder.create({ ...input, ...origin, userId })
+  return reminder
+}
+
+/** The user's reminders: upcoming first, soonest first, then the most recent past ones. */
+export async function listReminders(userId: mongoose.Types.ObjectId, limit = 50) {
+  const [upcoming, past] = await Promise.all([
+    Reminder.find({ userId, status: { $in: ['scheduled', 'sending'] } })
+      .sort({ remindAt: 1 })
+      .limit(limit)
+      .lean<IReminder[]>(),
+    Reminder.find({ userId, status: { $in: ['sent', 'failed', 'cancelled'] } })
+      .sort({ remindAt: -1 })
+      .limit(limit)
+      .lean<IReminder[]>()
+  ])
+  return { upcoming, past }
+}
+
+/** Cancel one of the user's scheduled reminders. Returns null if there is no such reminder. */
+export async function cancelReminder(reminderId: string, userId: mongoose.Types.ObjectId) {
+  if (!mongoose.isValidObjectId(reminderId)) return null
+
+  return Reminder.findOneAndUpdate(
+    { _id: reminderId, userId, status: 'scheduled' },
+    { $set: { status: 'cancelled', cancelledAt: new Date() }, $unset: { lockedUntil: '' } },
+    { new: true }
+  ).lean<IReminder>()
+}
+
+// Sent in-app reminders the open app hasn't shown as a toast yet
+export async function unseenInAppReminders(userId: mongoose.Types.ObjectId) {
+  // By delivery rather than status, since the reminder stays scheduled while other channels are retried
+  return Reminder.find({
+    userId,
+    deliveries: { $elemMatch: { channel: 'in_app', status: 'sent' } },
+    seenAt: { $exists: false }
+  })
+    .sort({ remindAt: 1 })
+    .limit(20)
+    .lean<IReminder[]>()
+}
+
+export async function markRemindersSeen(userId: mongoose.Types.ObjectId, reminderIds: string[]) {
+  const ids = reminderIds.filter((id) => mongoose.isValidObjectId(id))
+  if (ids.length === 0) return 0
+
+  const result = await Reminder.updateMany(
+    { _id: { $in: ids }, userId, seenAt: { $exists: false } },
+    { $set: { seenAt: new Date() } }
+  )
+  return result.modifiedCount
+}
+
+async function deliverReminder(reminder: IReminder, now: Date) {
+  const user = await User.findById(reminder.userId).select('email name').lean<Pick<IUser, 'email' | 'name'>>()
+  const recipient = { userId: reminder.userId, email: user?.email, name: user?.name }
+  const notification = { title: reminder.title, body: reminder.notes, url: appUrl() }
+
+  // Channels that already delivered or were skipped on an earlier attempt aren't sent again
+  const settled = new Set(
+    reminder.deliveries
+      .filter((delivery) => delivery.status !== 'failed')
+      .map((delivery) => delivery.channel)
+  )
+
+  const deliveries: IReminderDelivery[] = []
+  for (const name of reminder.channels.filter((channel) => !settled.has(channel))) {
+    const channel = getChannel(name)
+    if (!channel.isConfigured()) {
+      deliveries.push({ channel: name, status: 'skipped', error: 'Not configured on this server', at: new Date() })
+      continue
+    }
+
+    try {
+      await channel.send(recipient, notification)
+      deliveries.push({ channel: name, status: 'sent', at: new Date() })
+    } catch (error) {
+      const skipped = error instanceof NotificationSkippedError
+      if (!skipped) console.error(`Reminder ${reminder._id} ${name} delivery failed:`, error)
+      deliveries.push({
+        channel: name,
+        status: skipped ? 'skipped' : 'failed',
+        error: error instanceof Error ? error.message : 'Delivery failed',
+        at: new Date()
+      })
+    }
+  }
+
+  const sentBefore = reminder.deliveries.some((delivery) => delivery.status === 'sent')
+  const sentNow = deliveries.some((delivery) => delivery.status === 'sent')
+  const failed = deliveries.some((delivery) => delivery.status === 'failed')
+  const push = { deliveries: { $each: deliveries } }
+  // sentAt records the first successful delivery
+  const sentAt = sentNow && !reminder.sentAt ? { sentAt: now } : {}
+
+  let update: mongoose.UpdateQuery<IReminder>
+  if (failed && reminder.attempts < MAX_ATTEMPTS) {
+    // Only the failed channels are tried again, after a growing delay
+    update = {
+      $set: { status: 'scheduled', lockedUntil: new Date(now.getTime() + RETRY_DELAY_MS * reminder.attempts), ...sentAt },
+      $push: push
+    }
+  } else {
+    // Done: sent if any channel ever got through, even when others gave up
+    update = {
+      $set: { status: sentBefore || sentNow ? 'sent' : 'failed', ...sentAt },
+      $push: push,
+      $unset: { lockedUntil: '' }
+    }
+  }
+
+  await Reminder.updateOne({ _id: reminder._id }, update)
+}
+
+/**
+ * Send every reminder that is due, claiming each one first so several app instances
+ * (or the scheduler and the cron route) never send the same reminder twice.
+ * A reminder left in "sending" by a crashed instance is picked up again once its lock expires.
+ */
+export async function dispatchDueReminders({ now = new Date(), limit = 100 } = {}) {
+  let dispatched = 0
+
+  while (dispatched < limit) {
+    const reminder = await Reminder.findOneAndUpdate(
+      {
+        status: { $in: ['scheduled', 'sending'] },
+        remindAt: { $lte: now },
+        $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }]
+      },
+      {
+        $set: { status: 'sending', lockedUntil: new Date(now.getTime() + SEND_LOCK_MS) },
+        $inc: { attempts: 1 }
+      },
+      { sort: { remindAt: 1 }, new: true }
+    ).lean<IReminder>()
+    if (!reminder) break
+
+    await deliverReminder(reminder, now)
+    dispatched++
+  }
+
+  return dispatched
+}
+
+export function serializeReminder(reminder: IReminder) {
+  return {
+    id: String(reminder._id),
+    title: reminder.title,
+    notes: reminder.notes,
+    remindAt: reminder.remindAt,
+    channels: reminder.channels,
+    status: reminder.status,
+    deliveries: reminder.deliveries,
+    sentAt: reminder.sentAt,
+    createdAt: reminder.createdAt
+  }
+}
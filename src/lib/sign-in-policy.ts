@@ -0,0 +1,41 @@
+import dbConnect from '@/lib/mongodb'
+import { AllowedEmail } from '@/lib/models/AllowedEmail'
+
+// Comma-separated env lists, normalised to lowercase
+function envList(name: string) {
+  return (process.env[name] ?? '')
+    .split(',')
+    .map((value) => value.trim().toLowerCase().replace(/^@/, ''))
+    .filter(Boolean)
+}
+
+/** Institutional domains from ALLOWED_EMAIL_DOMAINS; empty means anyone may sign in. */
+export function allowedEmailDomains() {
+  return envList('ALLOWED_EMAIL_DOMAINS')
+}
+
+// ADMIN_EMAILS are always admins, so a fresh deployment can bootstrap roles
+export function isBootstrapAdmin(email?: string | null) {
+  return !!email && envList('ADMIN_EMAILS').includes(email.toLowerCase())
+}
+
+// Subdomains count too, so "univ.edu" also admits "cs.univ.edu"
+export function isAllowedEmailDomain(email: string) {
+  const domains = allowedEmailDomains()
+  if (domains.length === 0) return true
+
+  const domain = email.toLowerCase().split('@').pop() ?? ''
+  return domains.some((allowed) => domain === allowed || domain.endsWith(`.${allowed}`))
+}
+
+/**
+ * Whether an email may sign in: an allowed domain, a bootstrap admin,
+ * or an exception an admin added for that exact address.
+ */
+export async function isEmailAllowedToSignIn(email?: string | null) {
+  if (!email) return false
+  if (isAllowedEmailDomain(email) || isBootstrapAdmin(email)) return true
+
+  await dbConnect()
+  return !!(await AllowedEmail.exists({ email: email.toLowerCase() }))
+}
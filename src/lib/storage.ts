@@ -0,0 +1,44 @@
+import mongoose from 'mongoose'
+import { Readable } from 'stream'
+import dbConnect from './mongodb'
+
+// Original uploads live in GridFS next to the rest of our data,
+// so no separate disk or bucket has to be provisioned.
+const BUCKET_NAME = 'uploads'
+
+async function getBucket() {
+  const connection = await dbConnect()
+  const db = connection.connection.db
+  if (!db) {
+    throw new Error('MongoDB connection is not ready')
+  }
+  return new mongoose.mongo.GridFSBucket(db, { bucketName: BUCKET_NAME })
+}
+
+export async function saveFile(
+  buffer: Buffer,
+  fileName: string,
+  metadata: Record<string, unknown> = {}
+) {
+  const bucket = await getBucket()
+  const upload = bucket.openUploadStream(fileName, { metadata })
+
+  await new Promise<void>((resolve, reject) => {
+    Readable.from(buffer)
+      .pipe(upload)
+      .on('finish', () => resolve())
+      .on('error', reject)
+  })
+
+  return upload.id
+}
+
+export async function openFileStream(fileId: mongoose.Types.ObjectId) {
+  const bucket = await getBucket()
+  return bucket.openDownloadStream(fileId)
+}
+
+export async function deleteFile(fileId: mongoose.Types.ObjectId) {
+  const bucket = await getBucket()
+  await bucket.delete(fileId)
+}
@@ -0,0 +1,114 @@
+import mongoose from 'mongoose'
+import { z } from 'zod'
+import { Document, type IDocument } from '@/lib/models/Document'
+import { DocumentChunk, type IDocumentChunk } from '@/lib/models/DocumentChunk'
+import { getVectorStore } from '@/lib/rag/store'
+import { escapeRegExp } from '@/lib/utils'
+import { defineTool, ToolInputError } from './types'
+
+// Enough of a document for the model to summarize without blowing up the context
+const SUMMARY_CHAR_BUDGET = 12000
+const SEARCH_SNIPPET_LENGTH = 600
+
+// Accepts an id or a (partial) file name, since the model usually only knows the name
+async function findDocument(userId: mongoose.Types.ObjectId, reference: string) {
+  const query = mongoose.isValidObjectId(reference)
+    ? { userId, _id: new mongoose.Types.ObjectId(reference) }
+    : { userId, fileName: { $regex: escapeRegExp(reference), $options: 'i' } }
+
+  const document = await Document.findOne(query).sort({ createdAt: -1 }).lean<IDocument>()
+  if (!document) {
+    throw new ToolInputError(`No uploaded document matches "${reference}"`)
+  }
+  return document
+}
+
+export const listDocuments = defineTool({
+  name: 'listDocuments',
+  title: 'List uploaded documents',
+  description: 'List the documents the student has uploaded, with their processing status, size and page count.',
+  parameters: z.object({
+    limit: z.number().int().min(1).max(50).default(20).describe('Maximum number of documents to return')
+  }),
+  execute: async ({ limit }, { userId }) => {
+    const documents = await Document.find({ userId })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean<IDocument[]>()
+
+    return {
+      documents: documents.map((document) => ({
+        id: String(document._id),
+        fileName: document.fileName,
+        status: document.status,
+        sizeBytes: document.size,
+        pages: document.pageCount,
+        chunks: document.chunkCount,
+        uploadedAt: document.createdAt.toISOString()
+      }))
+    }
+  }
+})
+
+export const searchDocuments = defineTool({
+  name: 'searchDocuments',
+  title: 'Search documents',
+  description:
+    "Search the student's uploaded documents for passages relevant to a query. Use it when the excerpts already provided don't cover the question.",
+  parameters: z.object({
+    query: z.string().min(1).describe('What to look for'),
+    document: z.string().optional().describe('Restrict the search to one document, by id or file name'),
+    topK: z.number().int().min(1).max(10).default(5).describe('Number of passages to return')
+  }),
+  execute: async ({ query, document, topK }, { userId }) => {
+    const documentIds = document ? [String((await findDocument(userId, document))._id)] : undefined
+    const results = await getVectorStore().search(query, { userId: userId.toString(), documentIds, topK })
+
+    return {
+      passages: results.map((result) => ({
+        fileName: typeof result.metadata?.fileName === 'string' ? result.metadata.fileName : undefined,
+        page: typeof result.metadata?.page === 'number' ? result.metadata.page : undefined,
+        score: Number(result.score.toFixed(3)),
+        text: result.text.slice(0, SEARCH_SNIPPET_LENGTH)
+      }))
+    }
+  }
+})
+
+export const summarizeDocument = defineTool({
+  name: 'summarizeDocument',
+  title: 'Read document for summary',
+  description:
+    'Fetch the text of one uploaded document (from the start, up to a length limit) so you can summarize it for the student.',
+  parameters: z.object({
+    document: z.string().min(1).describe('The document id or file name')
+  }),
+  execute: async ({ document: reference }, { userId }) => {
+    const document = await findDocument(userId, reference)
+    if (document.status !== 'completed') {
+      throw new ToolInputError(`"${document.fileName}" is ${document.status} and can't be read yet`)
+    }
+
+    const chunks = await DocumentChunk.find({ documentId: document._id, userId })
+      .sort({ index: 1 })
+      .select('text page start end')
+      .lean<Pick<IDocumentChunk, 'text' | 'page' | 'start' | 'end'>[]>()
+
+    // Consecutive chunks on a page overlap, so drop the part already taken from the previous one
+    let text = ''
+    let previous: (typeof chunks)[number] | undefined
+    for (const chunk of chunks) {
+      const overlap = previous && previous.page === chunk.page ? Math.max(0, previous.end - chunk.start) : 0
+      text += `${text && !overlap ? '\n' : ''}${chunk.text.slice(overlap)}`
+      previous = chunk
+      if (text.length >= SUMMARY_CHAR_BUDGET) break
+    }
+
+    return {
+      fileName: document.fileName,
+      pages: document.pageCount,
+      truncated: text.length > SUMMARY_CHAR_BUDGET || previous !== chunks[chunks.length - 1],
+      text: text.slice(0, SUMMARY_CHAR_BUDGET)
+    }
+  }
+})
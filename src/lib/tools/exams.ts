@@ -0,0 +1,54 @@
+import { z } from 'zod'
+import type { IExamSlot } from '@/lib/models/ExamSlot'
+import { describeTimeRange } from '@/lib/campus-time'
+import { findExamConflicts, findExams, getStudentExams } from '@/lib/exams'
+import { defineTool } from './types'
+
+function describeExam(exam: IExamSlot) {
+  return {
+    courseCode: exam.courseCode,
+    title: exam.title,
+    when: describeTimeRange(exam.start, exam.end),
+    location: exam.location,
+    notes: exam.notes
+  }
+}
+
+export const getMyExams = defineTool({
+  name: 'getMyExams',
+  title: 'Check exam timetable',
+  description:
+    "Get the student's upcoming exams for the courses in their profile, with any exams that overlap flagged as conflicts. " +
+    'Pass courses to look up exams for other courses instead.',
+  parameters: z.object({
+    courses: z
+      .array(z.string())
+      .max(20)
+      .optional()
+      .describe("Course codes to look up instead of the student's enrolled courses, e.g. [\"CS101\"]"),
+    includePast: z.boolean().default(false).describe('Include exams that have already finished')
+  }),
+  execute: async ({ courses, includePast }, { userId }) => {
+    if (courses && courses.length > 0) {
+      const exams = await findExams(courses, { includePast })
+      return {
+        exams: exams.map(describeExam),
+        conflicts: findExamConflicts(exams).map(({ first, second }) => [first.courseCode, second.courseCode])
+      }
+    }
+
+    const { enrolledCourses, exams, conflicts, unscheduledCourses } = await getStudentExams(userId, { includePast })
+    if (enrolledCourses.length === 0) {
+      return {
+        exams: [],
+        note: 'The student has no enrolled courses in their profile; ask which courses they take or suggest adding them in Settings'
+      }
+    }
+
+    return {
+      exams: exams.map(describeExam),
+      conflicts: conflicts.map(({ first, second }) => [first.courseCode, second.courseCode]),
+      unscheduledCourses
+    }
+  }
+})
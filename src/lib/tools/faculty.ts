@@ -0,0 +1,37 @@
+import { z } from 'zod'
+import { formatOfficeHours, searchFaculty } from '@/lib/faculty'
+import { defineTool, ToolInputError } from './types'
+
+export const findFaculty = defineTool({
+  name: 'findFaculty',
+  title: 'Look up faculty',
+  description:
+    'Look up faculty contact details and office hours, e.g. "who teaches CS101 and when are their office hours?". ' +
+    'Search by course code, department or a name.',
+  parameters: z.object({
+    query: z.string().optional().describe('A name, email or office to search for'),
+    course: z.string().optional().describe('Course code, e.g. "CS101"'),
+    department: z.string().optional().describe('Department name, e.g. "Physics"'),
+    limit: z.number().int().min(1).max(20).default(5).describe('Maximum number of people to return')
+  }),
+  execute: async ({ query, course, department, limit }) => {
+    if (!query?.trim() && !course?.trim() && !department?.trim()) {
+      throw new ToolInputError('Give a name, course code or department to search for')
+    }
+
+    const faculty = await searchFaculty({ query, course, department, limit })
+
+    return {
+      faculty: faculty.map((person) => ({
+        name: person.name,
+        title: person.title,
+        department: person.department,
+        email: person.email,
+        phone: person.phone,
+        office: person.office,
+        officeHours: person.officeHours.length > 0 ? formatOfficeHours(person.officeHours) : 'Not listed',
+        courses: person.courses
+      }))
+    }
+  }
+})
@@ -0,0 +1,69 @@
+import { tool, type ToolSet } from 'ai'
+import { recordActivity, updateActivity } from '@/lib/activity'
+import { listDocuments, searchDocuments, summarizeDocument } from './documents'
+import { getMyExams } from './exams'
+import { findFaculty } from './faculty'
+import { bookLab } from './labs'
+import { createReminder } from './reminders'
+import { ToolInputError, type UnivBotTool, type ToolContext } from './types'
+
+export * from './types'
+
+// Every tool the chat model may call. Add new tools here.
+const TOOLS: UnivBotTool[] = [
+  listDocuments,
+  searchDocuments,
+  summarizeDocument,
+  bookLab,
+  findFaculty,
+  getMyExams,
+  createReminder
+]
+
+export function getTools() {
+  return TOOLS
+}
+
+/**
+ * Run a tool on behalf of a user, recording the invocation as a Past Events "Tool" entry.
+ * Errors are recorded and rethrown so the model sees them as a failed tool call.
+ */
+export async function runTool(toolDefinition: UnivBotTool, args: unknown, context: ToolContext) {
+  const event = await recordActivity({
+    userId: context.userId,
+    type: 'Tool',
+    status: 'processing',
+    title: toolDefinition.title,
+    toolName: toolDefinition.name,
+    sessionId: context.sessionId,
+    messageId: context.messageId,
+    payload: { args }
+  })
+
+  try {
+    const result = await toolDefinition.execute(args, context)
+    await updateActivity(event, { status: 'completed', payload: { result } })
+    return result
+  } catch (error) {
+    if (!(error instanceof ToolInputError)) {
+      console.error(`Tool ${toolDefinition.name} failed:`, error)
+    }
+    const message = error instanceof ToolInputError ? error.message : `${toolDefinition.title} failed`
+    await updateActivity(event, { status: 'failed', payload: { error: message } })
+    throw new Error(message)
+  }
+}
+
+/** The registry as an AI SDK tool set bound to one chat turn, for `streamText({ tools })`. */
+export function createToolSet(context: ToolContext): ToolSet {
+  return Object.fromEntries(
+    TOOLS.map((toolDefinition) => [
+      toolDefinition.name,
+      tool({
+        description: toolDefinition.description,
+        inputSchema: toolDefinition.parameters,
+        execute: (args) => runTool(toolDefinition, args, context)
+      })
+    ])
+  )
+}
@@ -0,0 +1,73 @@
+import { z } from 'zod'
+import { Lab, type ILab } from '@/lib/models/Lab'
+import { describeTimeRange, isDateString, isTimeString, zonedTime } from '@/lib/campus-time'
+import {
+  BookingError,
+  MAX_BOOKING_SLOTS,
+  bookLab as createBooking,
+  findAlternativeSlots,
+  findLab,
+  serializeBooking
+} from '@/lib/labs'
+import { defineTool, ToolInputError } from './types'
+
+// The model answers in campus wall-clock time, so spell it out rather than leaving UTC to convert
+function localRange(range: { start: Date; end: Date }, timeZone: string) {
+  return {
+    start: range.start.toISOString(),
+    end: range.end.toISOString(),
+    local: describeTimeRange(range.start, range.end, timeZone)
+  }
+}
+
+export const bookLab = defineTool({
+  name: 'bookLab',
+  title: 'Book a lab',
+  description:
+    'Book a campus lab for the student, e.g. "book the physics lab Thursday 3pm". Resolve relative days against today\'s date. ' +
+    'If the slot is taken or the lab is closed, offer the returned alternatives instead of retrying on your own.',
+  parameters: z.object({
+    lab: z.string().min(1).describe('Lab name or code, e.g. "physics" or "PHY-101"'),
+    date: z.string().refine(isDateString, 'Use YYYY-MM-DD').describe('Local date, YYYY-MM-DD'),
+    time: z.string().refine(isTimeString, 'Use 24-hour HH:mm').describe('Local start time, 24-hour HH:mm'),
+    durationMinutes: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("How long to book; defaults to one slot and is rounded up to whole slots"),
+    purpose: z.string().max(200).optional().describe('What the lab is needed for, if the student said')
+  }),
+  execute: async ({ lab: reference, date, time, durationMinutes, purpose }, { userId }) => {
+    const lab = await findLab(reference)
+    if (!lab) {
+      const labs = await Lab.find({ isActive: true }).select('name code').sort({ name: 1 }).lean<ILab[]>()
+      throw new ToolInputError(
+        labs.length > 0
+          ? `No lab matches "${reference}". Bookable labs: ${labs.map((l) => `${l.name} (${l.code})`).join(', ')}`
+          : 'There are no bookable labs yet'
+      )
+    }
+
+    const slotCount = durationMinutes ? Math.ceil(durationMinutes / lab.slotMinutes) : 1
+    if (slotCount > MAX_BOOKING_SLOTS) {
+      throw new ToolInputError(`Bookings are limited to ${MAX_BOOKING_SLOTS * lab.slotMinutes} minutes`)
+    }
+    const start = zonedTime(date, time, lab.timeZone)
+
+    try {
+      const booking = await createBooking({ lab, userId, start, slotCount, purpose })
+      return {
+        booked: true,
+        booking: { ...serializeBooking(booking, lab), ...localRange(booking, lab.timeZone) }
+      }
+    } catch (error) {
+      if (!(error instanceof BookingError)) throw error
+      return {
+        booked: false,
+        reason: error.message,
+        alternatives: (await findAlternativeSlots(lab, start, slotCount)).map((range) => localRange(range, lab.timeZone))
+      }
+    }
+  }
+})
@@ -0,0 +1,48 @@
+import { z } from 'zod'
+import { describeLocalTime, isDateString, isTimeString, zonedTime } from '@/lib/campus-time'
+import { configuredChannels } from '@/lib/notifications'
+import { REMINDER_CHANNELS, reminderInputSchema } from '@/lib/reminder-schema'
+import { ReminderLimitError, createReminder as scheduleReminder } from '@/lib/reminders'
+import { defineTool, ToolInputError } from './types'
+
+export const createReminder = defineTool({
+  name: 'createReminder',
+  title: 'Set a reminder',
+  description:
+    'Schedule a reminder for the student, e.g. for an assignment deadline, an exam or a lab booking. ' +
+    "Resolve relative days against today's date. Reminders appear in the app by default; add email or push if the student asks.",
+  parameters: z.object({
+    title: z.string().min(1).max(200).describe('What to remind about, e.g. "CS101 assignment 3 due at 5pm"'),
+    date: z.string().refine(isDateString, 'Use YYYY-MM-DD').describe('Local date to send the reminder, YYYY-MM-DD'),
+    time: z.string().refine(isTimeString, 'Use 24-hour HH:mm').describe('Local time to send the reminder, 24-hour HH:mm'),
+    notes: z.string().max(1000).optional().describe('Extra detail to include'),
+    channels: z
+      .array(z.enum(REMINDER_CHANNELS))
+      .optional()
+      .describe('How to deliver it: in_app (default), email and/or push')
+  }),
+  execute: async ({ title, date, time, notes, channels }, { userId, sessionId, messageId }) => {
+    const parsed = reminderInputSchema.safeParse({ title, notes, channels, remindAt: zonedTime(date, time) })
+    if (!parsed.success) {
+      throw new ToolInputError(parsed.error.issues[0]?.message ?? 'Invalid reminder')
+    }
+
+    try {
+      const reminder = await scheduleReminder(userId, parsed.data, { sessionId, messageId })
+      const available = configuredChannels()
+
+      return {
+        reminder: {
+          id: String(reminder._id),
+          title: reminder.title,
+          when: describeLocalTime(reminder.remindAt),
+          channels: reminder.channels
+        },
+        unavailableChannels: reminder.channels.filter((channel) => !available.includes(channel))
+      }
+    } catch (error) {
+      if (error instanceof ReminderLimitError) throw new ToolInputError(error.message)
+      throw error
+    }
+  }
+})
@@ -0,0 +1,34 @@
+import type mongoose from 'mongoose'
+import type { z } from 'zod'
+
+// Who invoked a tool and from which chat turn; executors scope every query to this user
+export interface ToolContext {
+  userId: mongoose.Types.ObjectId
+  sessionId: string
+  messageId: string
+}
+
+// The defaults describe a tool of any parameter type, as stored in the registry
+export interface UnivBotTool<PARAMETERS extends z.ZodTypeAny = z.ZodTypeAny, RESULT = unknown> {
+  name: string
+  // Shown as the Past Events entry title
+  title: string
+  // Tells the model when to call the tool
+  description: string
+  parameters: PARAMETERS
+  // Method syntax keeps specific tools assignable to the registry's UnivBotTool[]
+  execute(args: z.infer<PARAMETERS>, context: ToolContext): Promise<RESULT>
+}
+
+/** Identity helper that infers the argument type of `execute` from the parameter schema. */
+export function defineTool<PARAMETERS extends z.ZodTypeAny, RESULT>(tool: UnivBotTool<PARAMETERS, RESULT>) {
+  return tool
+}
+
+// Thrown for problems the model should see and can recover from, e.g. an unknown document
+export class ToolInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ToolInputError'
+  }
+}
@@ -0,0 +1,57 @@
+import type mongoose from 'mongoose'
+import { User, type IUser } from '@/lib/models/User'
+import { decryptSecret, encryptSecret, maskSecret } from '@/lib/crypto'
+
+export interface ApiKeyStatus {
+  hasKey: boolean
+  maskedKey: string | null
+}
+
+function toStatus(user: Pick<IUser, 'geminiApiKeyLast4'> | null): ApiKeyStatus {
+  const last4 = user?.geminiApiKeyLast4
+  return { hasKey: !!last4, maskedKey: last4 ? maskSecret(last4) : null }
+}
+
+export async function getApiKeyStatus(userId: mongoose.Types.ObjectId) {
+  const user = await User.findById(userId).select('geminiApiKeyLast4').lean<Pick<IUser, 'geminiApiKeyLast4'>>()
+  return toStatus(user)
+}
+
+// updateOne skips full-document validation: adapter-created users may lack fields our schema requires
+export async function saveGeminiApiKey(userId: mongoose.Types.ObjectId, apiKey: string) {
+  const last4 = apiKey.slice(-4)
+  const result = await User.updateOne(
+    { _id: userId },
+    { $set: { geminiApiKeyEncrypted: encryptSecret(apiKey), geminiApiKeyLast4: last4 } }
+  )
+  if (result.matchedCount === 0) {
+    throw new Error('User not found')
+  }
+  return toStatus({ geminiApiKeyLast4: last4 })
+}
+
+export async function deleteGeminiApiKey(userId: mongoose.Types.ObjectId) {
+  await User.updateOne(
+    { _id: userId },
+    { $unset: { geminiApiKeyEncrypted: 1, geminiApiKeyLast4: 1 } }
+  )
+  return toStatus(null)
+}
+
+/**
+ * The user's decrypted Gemini key, or null if they haven't saved one.
+ * A key that no longer decrypts (e.g. the server secret rotated) is treated as missing.
+ */
+export async function getGeminiApiKey(userId: mongoose.Types.ObjectId) {
+  const user = await User.findById(userId)
+    .select('+geminiApiKeyEncrypted')
+    .lean<Pick<IUser, 'geminiApiKeyEncrypted'>>()
+  if (!user?.geminiApiKeyEncrypted) return null
+
+  try {
+    return decryptSecret(user.geminiApiKeyEncrypted)
+  } catch (error) {
+    console.error('Failed to decrypt stored Gemini API key:', error)
+    return null
+  }
+}
@@ -0,0 +1,51 @@
+import type mongoose from 'mongoose'
+import { User, type IUser } from '@/lib/models/User'
+import type { ProfileUpdate, StudentProfile } from '@/lib/profile-schema'
+
+const PROFILE_FIELDS = 'department program studentId year enrolledCourses'
+
+type ProfileFields = Pick<IUser, 'department' | 'program' | 'studentId' | 'year' | 'enrolledCourses'>
+
+function toProfile(user: Partial<ProfileFields> | null): StudentProfile {
+  return {
+    department: user?.department || undefined,
+    program: user?.program || undefined,
+    studentId: user?.studentId || undefined,
+    year: user?.year ?? undefined,
+    enrolledCourses: user?.enrolledCourses ?? []
+  }
+}
+
+export async function getStudentProfile(userId: mongoose.Types.ObjectId) {
+  const user = await User.findById(userId).select(PROFILE_FIELDS).lean<ProfileFields>()
+  return toProfile(user)
+}
+
+/**
+ * Apply a validated profile update. Fields left out are untouched; empty values are removed.
+ * Returns null when the user doesn't exist.
+ */
+export async function updateStudentProfile(userId: mongoose.Types.ObjectId, update: ProfileUpdate) {
+  const $set: Record<string, unknown> = {}
+  const $unset: Record<string, 1> = {}
+
+  for (const [field, value] of Object.entries(update)) {
+    if (value === undefined) continue
+    if (value === null || value === '') $unset[field] = 1
+    else $set[field] = value
+  }
+
+  // Update operators skip full-document validation: adapter-created users may lack fields our schema requires
+  const user = await User.findOneAndUpdate(
+    { _id: userId },
+    {
+      ...(Object.keys($set).length > 0 && { $set }),
+      ...(Object.keys($unset).length > 0 && { $unset })
+    },
+    { new: true }
+  )
+    .select(PROFILE_FIELDS)
+    .lean<ProfileFields>()
+
+  return user ? toProfile(user) : null
+}
@@ -0,0 +1,73 @@
+import mongoose from 'mongoose'
+import { ActivityEvent } from '@/lib/models/ActivityEvent'
+import { Booking } from '@/lib/models/Booking'
+import { Chat } from '@/lib/models/Chat'
+import { Document } from '@/lib/models/Document'
+import { DocumentChunk } from '@/lib/models/DocumentChunk'
+import { Reminder } from '@/lib/models/Reminder'
+import { User, type IUser } from '@/lib/models/User'
+import { WebPushSubscription } from '@/lib/models/WebPushSubscription'
+import { getVectorStore } from '@/lib/rag'
+import { deleteFile } from '@/lib/storage'
+
+export function serializeUser(user: IUser) {
+  return {
+    id: String(user._id),
+    email: user.email,
+    name: user.name,
+    studentId: user.studentId,
+    department: user.department,
+    program: user.program,
+    year: user.year,
+    // Users created by the auth adapter have no stored role yet
+    role: user.role ?? 'student',
+    createdAt: user.createdAt,
+    lastActive: user.lastActive
+  }
+}
+
+export type SerializedUser = ReturnType<typeof serializeUser>
+
+// Uploads take their GridFS file and indexed vectors with them
+async function deleteUserDocuments(userId: mongoose.Types.ObjectId) {
+  const documents = await Document.find({ userId }).select('fileId').lean<{
+    _id: mongoose.Types.ObjectId
+    fileId: mongoose.Types.ObjectId
+  }[]>()
+  const vectorStore = getVectorStore()
+
+  for (const document of documents) {
+    await vectorStore.deleteDocument(String(document._id))
+    // A file already missing from GridFS is nothing to clean up
+    await deleteFile(document.fileId).catch((error) => {
+      console.error('Error deleting uploaded file:', error)
+    })
+  }
+
+  await DocumentChunk.deleteMany({ userId })
+  await Document.deleteMany({ userId })
+}
+
+/**
+ * Delete a user together with everything they own: the OAuth accounts and sessions
+ * the auth adapter linked to them, chats, uploaded documents, activity history, lab bookings,
+ * reminders and push subscriptions.
+ * The same identity can then sign up again cleanly.
+ * Models that store per-user data should be added to this cascade.
+ */
+export async function deleteUser(userId: mongoose.Types.ObjectId) {
+  const result = await User.deleteOne({ _id: userId })
+  if (result.deletedCount === 0) return false
+
+  await Promise.all([
+    mongoose.connection.collection('accounts').deleteMany({ userId }),
+    mongoose.connection.collection('sessions').deleteMany({ userId }),
+    Chat.deleteMany({ userId }),
+    ActivityEvent.deleteMany({ userId }),
+    Booking.deleteMany({ userId }),
+    Reminder.deleteMany({ userId }),
+    WebPushSubscription.deleteMany({ userId }),
+    deleteUserDocuments(userId)
+  ])
+  return true
+}
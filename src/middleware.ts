@@ -1,14 +1,43 @@
-// Middleware disabled - authentication handled at component level
-// This allows the root page to show the non-dismissible sign-in dialog
+import { NextResponse, type NextRequest } from "next/server"
+import { getToken } from "next-auth/jwt"
 
-export function middleware() {
-  // No middleware logic needed
-  return
+// Keep in sync with authOptions.pages
+const SIGN_IN_PAGE = "/auth/signin"
+
+// Reachable without a session: NextAuth's own endpoints, the auth pages, the health probe,
+// the cron-triggered reminder dispatch (it checks its own secret) and the push service worker
+const PUBLIC_PATHS = ["/api/auth", "/auth", "/api/health", "/api/reminders/dispatch", "/push-sw.js"]
+
+// Calendar feeds are fetched by calendar apps without cookies; the secret token in the URL is checked by the route
+const CALENDAR_FEED_PATH = /^\/api\/calendar\/[^/]+\.ics$/
+
+function isPublicPath(pathname: string) {
+  return (
+    PUBLIC_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`)) ||
+    CALENDAR_FEED_PATH.test(pathname)
+  )
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  if (isPublicPath(pathname)) return NextResponse.next()
+
+  // Verifies the session JWT signature and expiry; the edge runtime can't reach MongoDB
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET })
+  if (token) return NextResponse.next()
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const signInUrl = new URL(SIGN_IN_PAGE, request.url)
+  signInUrl.searchParams.set("callbackUrl", `${pathname}${search}`)
+  return NextResponse.redirect(signInUrl)
 }
 
 export const config = {
   matcher: [
-    // No routes protected by middleware
-    // Authentication is handled in the page component
+    // Everything except Next.js internals and static files (favicons, images, the manifest)
+    "/((?!_next/static|_next/image|favicon|.*\\.(?:ico|png|jpg|jpeg|gif|svg|webp|webmanifest)$).*)",
   ],
-} 
\ No newline at end of file
+}